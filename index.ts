@@ -7,9 +7,18 @@
  * Prerequisites:
  *   1. Install dependencies: cd ~/.pi/agent/extensions/vertex-claude && npm install
  *   2. Authenticate with Google Cloud: gcloud auth application-default login
+ *      (not needed on GCE/GKE/Cloud Run, where the metadata server provides credentials)
  *   3. Set environment variables:
  *      - GOOGLE_CLOUD_PROJECT or GCLOUD_PROJECT: Your GCP project ID
  *      - GOOGLE_CLOUD_LOCATION: Region (optional, defaults to us-east5)
+ *      - VERTEX_CLAUDE_REGIONS: Comma-separated failover regions, e.g. us-east5,global (optional)
+ *      - VERTEX_CLAUDE_IMPERSONATE_SERVICE_ACCOUNT: Service account to impersonate (optional)
+ *      - VERTEX_CLAUDE_RECORD_DIR: Record requests and raw stream events as JSONL (optional, for debugging)
+ *      - VERTEX_CLAUDE_REPLAY: Replay a recorded JSONL file instead of calling Vertex (optional)
+ *
+ * Settings can also live in ~/.pi/agent/vertex-claude.json, overridden per repo by
+ * .pi/vertex-claude.json (region(s), maxTokens, thinkingBudgets, budgets, models). project,
+ * impersonateServiceAccount, betas and fallback.enabled are only read from the global file.
  *
  * Usage:
  *   pi --provider google-vertex-claude --model claude-sonnet-4@20250514
@@ -22,12 +31,19 @@
  *   end
  */
 
+import Anthropic from "@anthropic-ai/sdk";
 import { AnthropicVertex } from "@anthropic-ai/vertex-sdk";
-import type { ContentBlockParam, MessageCreateParamsStreaming } from "@anthropic-ai/sdk/resources/messages.js";
+import type {
+	ContentBlockParam,
+	MessageCreateParamsStreaming,
+	MessageParam,
+	MessageStreamEvent,
+} from "@anthropic-ai/sdk/resources/messages.js";
 import {
 	type Api,
 	type AssistantMessage,
 	type AssistantMessageEventStream,
+	type CacheRetention,
 	calculateCost,
 	type Context,
 	createAssistantMessageEventStream,
@@ -41,11 +57,25 @@ import {
 	type Tool,
 	type ToolCall,
 	type ToolResultMessage,
+	type Usage,
+	validateToolArguments,
 } from "@mariozechner/pi-ai";
 import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
-import { existsSync } from "node:fs";
+import { Compute, GoogleAuth, Impersonated } from "google-auth-library";
+import { createHash, randomUUID } from "node:crypto";
+import {
+	appendFileSync,
+	closeSync,
+	existsSync,
+	mkdirSync,
+	openSync,
+	readFileSync,
+	readSync,
+	statSync,
+	writeFileSync,
+} from "node:fs";
 import { homedir } from "node:os";
-import { join } from "node:path";
+import { dirname, join } from "node:path";
 import { parse as partialParse } from "partial-json";
 
 // =============================================================================
@@ -53,7 +83,48 @@ import { parse as partialParse } from "partial-json";
 // Pricing from: https://cloud.google.com/vertex-ai/generative-ai/pricing#partner-models
 // =============================================================================
 
-const VERTEX_CLAUDE_MODELS = [
+const FINE_GRAINED_TOOL_STREAMING_BETA = "fine-grained-tool-streaming-2025-05-14";
+const INTERLEAVED_THINKING_BETA = "interleaved-thinking-2025-05-14";
+const EFFORT_BETA = "effort-2025-11-24";
+
+// Opus 4.6 decides how much to think on its own, steered by effort; interleaving is built in
+const ADAPTIVE_CAPABILITIES: ModelCapabilities = {
+	betas: [FINE_GRAINED_TOOL_STREAMING_BETA],
+	thinking: "adaptive",
+	temperatureWithThinking: false,
+	toolStreaming: true,
+	effortLevels: ["low", "medium", "high", "max"],
+	prefill: false,
+};
+const CLAUDE_4_CAPABILITIES: ModelCapabilities = {
+	betas: [FINE_GRAINED_TOOL_STREAMING_BETA, INTERLEAVED_THINKING_BETA],
+	thinking: "budgeted",
+	maxThinkingBudget: 32000,
+	temperatureWithThinking: false,
+	toolStreaming: true,
+	effortLevels: [],
+	prefill: true,
+};
+const OPUS_4_5_CAPABILITIES: ModelCapabilities = {
+	...CLAUDE_4_CAPABILITIES,
+	betas: [...CLAUDE_4_CAPABILITIES.betas, EFFORT_BETA],
+	effortLevels: ["low", "medium", "high"],
+};
+// 3.7 has extended thinking but no interleaved thinking between tool calls
+const CLAUDE_3_7_CAPABILITIES: ModelCapabilities = {
+	...CLAUDE_4_CAPABILITIES,
+	betas: [FINE_GRAINED_TOOL_STREAMING_BETA],
+};
+const CLAUDE_3_5_CAPABILITIES: ModelCapabilities = {
+	betas: [],
+	thinking: "none",
+	temperatureWithThinking: true,
+	toolStreaming: false,
+	effortLevels: [],
+	prefill: true,
+};
+
+const VERTEX_CLAUDE_MODELS: VertexClaudeModel[] = [
 	{
 		id: "claude-opus-4-6",
 		name: "Claude Opus 4.6 (Vertex)",
@@ -62,6 +133,7 @@ const VERTEX_CLAUDE_MODELS = [
 		cost: { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
 		contextWindow: 200000,
 		maxTokens: 32000,
+		capabilities: ADAPTIVE_CAPABILITIES,
 	},
 	{
 		id: "claude-opus-4-5@20251101",
@@ -71,6 +143,7 @@ const VERTEX_CLAUDE_MODELS = [
 		cost: { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
 		contextWindow: 200000,
 		maxTokens: 32000,
+		capabilities: OPUS_4_5_CAPABILITIES,
 	},
 	{
 		id: "claude-opus-4-1@20250805",
@@ -80,6 +153,7 @@ const VERTEX_CLAUDE_MODELS = [
 		cost: { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
 		contextWindow: 200000,
 		maxTokens: 32000,
+		capabilities: CLAUDE_4_CAPABILITIES,
 	},
 	{
 		id: "claude-opus-4@20250514",
@@ -89,6 +163,7 @@ const VERTEX_CLAUDE_MODELS = [
 		cost: { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
 		contextWindow: 200000,
 		maxTokens: 32000,
+		capabilities: CLAUDE_4_CAPABILITIES,
 	},
 	{
 		id: "claude-sonnet-4-5@20250929",
@@ -98,6 +173,11 @@ const VERTEX_CLAUDE_MODELS = [
 		cost: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
 		contextWindow: 200000,
 		maxTokens: 64000,
+		capabilities: CLAUDE_4_CAPABILITIES,
+		longContext: {
+			contextWindow: 1000000,
+			cost: { input: 6, output: 22.5, cacheRead: 0.6, cacheWrite: 7.5 },
+		},
 	},
 	{
 		id: "claude-sonnet-4@20250514",
@@ -107,6 +187,11 @@ const VERTEX_CLAUDE_MODELS = [
 		cost: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
 		contextWindow: 200000,
 		maxTokens: 64000,
+		capabilities: CLAUDE_4_CAPABILITIES,
+		longContext: {
+			contextWindow: 1000000,
+			cost: { input: 6, output: 22.5, cacheRead: 0.6, cacheWrite: 7.5 },
+		},
 	},
 	{
 		id: "claude-3-7-sonnet@20250219",
@@ -116,6 +201,7 @@ const VERTEX_CLAUDE_MODELS = [
 		cost: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
 		contextWindow: 200000,
 		maxTokens: 64000,
+		capabilities: CLAUDE_3_7_CAPABILITIES,
 	},
 	{
 		id: "claude-haiku-4-5@20251001",
@@ -125,6 +211,7 @@ const VERTEX_CLAUDE_MODELS = [
 		cost: { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
 		contextWindow: 200000,
 		maxTokens: 64000,
+		capabilities: CLAUDE_4_CAPABILITIES,
 	},
 	{
 		id: "claude-3-5-sonnet-v2@20241022",
@@ -134,6 +221,7 @@ const VERTEX_CLAUDE_MODELS = [
 		cost: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
 		contextWindow: 200000,
 		maxTokens: 8192,
+		capabilities: CLAUDE_3_5_CAPABILITIES,
 	},
 	{
 		id: "claude-3-5-haiku@20241022",
@@ -143,42 +231,779 @@ const VERTEX_CLAUDE_MODELS = [
 		cost: { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
 		contextWindow: 200000,
 		maxTokens: 8192,
+		capabilities: CLAUDE_3_5_CAPABILITIES,
 	},
 ];
 
 // =============================================================================
-// Helper Functions
+// Configuration
+// Global: ~/.pi/agent/vertex-claude.json, per-repo override: <cwd>/.pi/vertex-claude.json
+// (except GLOBAL_ONLY_SETTINGS, which a repository can't set).
+// Environment variables take precedence over both files.
 // =============================================================================
 
-type ProjectEnvVar = "GOOGLE_CLOUD_PROJECT" | "GCLOUD_PROJECT";
+type ThinkingBudgetLevel = "minimal" | "low" | "medium" | "high" | "xhigh";
 
-const DEFAULT_ADC_PATH = join(homedir(), ".config", "gcloud", "application_default_credentials.json");
-let cachedAdcExists: boolean | null = null;
+interface ModelCost {
+	input: number;
+	output: number;
+	cacheRead: number;
+	cacheWrite: number;
+}
+
+export type EffortLevel = "low" | "medium" | "high" | "max";
+
+/** What a model accepts; request building only uses features listed here. */
+export interface ModelCapabilities {
+	/** Anthropic beta flags the model accepts */
+	betas: string[];
+	/** "budgeted" takes thinking.budget_tokens, "adaptive" lets the model decide, steered by effort */
+	thinking: "none" | "budgeted" | "adaptive";
+	maxThinkingBudget?: number;
+	/** Whether temperature may be set while thinking is enabled */
+	temperatureWithThinking: boolean;
+	/** Fine-grained streaming of tool input */
+	toolStreaming: boolean;
+	/** Accepted output_config.effort values, empty when effort isn't supported */
+	effortLevels: EffortLevel[];
+	/** Whether a response may be continued from an assistant prefill */
+	prefill: boolean;
+}
+
+/** The 1M-token window behind the long-context beta, and the rates once a prompt passes 200K tokens. */
+interface LongContextTier {
+	contextWindow: number;
+	cost: ModelCost;
+}
+
+export interface VertexClaudeModel {
+	id: string;
+	name: string;
+	reasoning: boolean;
+	input: ("text" | "image")[];
+	cost: ModelCost;
+	contextWindow: number;
+	maxTokens: number;
+	longContext?: LongContextTier;
+	capabilities?: ModelCapabilities;
+}
+
+/** A config entry either overrides a built-in model (by id), hides it, or adds a new one. */
+export interface ModelConfigEntry
+	extends Partial<Omit<VertexClaudeModel, "cost" | "longContext" | "capabilities">> {
+	id: string;
+	hidden?: boolean;
+	cost?: Partial<ModelCost>;
+	capabilities?: Partial<ModelCapabilities>;
+	/** Opt into the model's 1M-token context window */
+	longContext?: boolean;
+}
+
+export interface VertexClaudeConfig {
+	project?: string;
+	region?: string;
+	regions?: string[];
+	maxTokens?: number;
+	thinkingBudgets?: Partial<Record<ThinkingBudgetLevel, number>>;
+	betas?: string[];
+	models?: ModelConfigEntry[];
+	discovery?: { enabled?: boolean; ttlHours?: number };
+	/** Service account email to impersonate with the ambient credentials */
+	impersonateServiceAccount?: string;
+	/** Prompt cache TTL: "short" (5 minutes), "long" (1 hour) or "none" */
+	cacheRetention?: CacheRetention;
+	/** Default effort for models that support it; adaptive thinking derives it from the thinking level */
+	effort?: EffortLevel;
+	/** Spend caps in USD: `warn` notifies once crossed, `limit` refuses further requests */
+	budgets?: { session?: BudgetLimits; day?: BudgetLimits };
+	/** Stream stall limits in milliseconds; 0 disables a limit */
+	timeouts?: StreamTimeouts;
+	/** How many times a response cut off by max_tokens is continued (default 0, off) */
+	maxContinuations?: number;
+	/** When to send a request to the first-party Anthropic API instead (needs ANTHROPIC_API_KEY) */
+	fallback?: FallbackConfig;
+}
+
+export interface FallbackConfig {
+	enabled?: boolean;
+	/** Error categories that move a request to the Anthropic API (default: quota, overload, timeout) */
+	on?: ErrorCategory[];
+	/** Vertex retries to spend first; 0 falls back once every region has failed (default 0) */
+	afterRetries?: number;
+	/** Vertex model ID -> Anthropic API model name, for models the built-in mapping doesn't know */
+	models?: Record<string, string>;
+}
+
+export interface BudgetLimits {
+	warn?: number;
+	limit?: number;
+}
+
+export interface StreamTimeouts {
+	/** Until Vertex answers with response headers */
+	connectMs?: number;
+	/** From the response to the first SSE event */
+	firstEventMs?: number;
+	/** Longest gap between two SSE events */
+	idleMs?: number;
+}
+
+export interface LoadedConfig {
+	config: VertexClaudeConfig;
+	errors: string[];
+	sources: string[];
+	/** File each top-level setting was taken from, the per-repo one when both set it */
+	origins: Partial<Record<keyof VertexClaudeConfig, string>>;
+}
+
+const GLOBAL_CONFIG_FILE = join(".pi", "agent", "vertex-claude.json");
+const PROJECT_CONFIG_FILE = join(".pi", "vertex-claude.json");
+// Settings a cloned repository must not change: the billed project, the credentials used, the
+// API features turned on, and whether prompts may leave Vertex for the Anthropic API
+const GLOBAL_ONLY_SETTINGS = ["project", "impersonateServiceAccount", "betas"] as const;
+const THINKING_BUDGET_LEVELS: ThinkingBudgetLevel[] = ["minimal", "low", "medium", "high", "xhigh"];
+const MODEL_COST_KEYS: (keyof ModelCost)[] = ["input", "output", "cacheRead", "cacheWrite"];
+const EFFORT_LEVELS: EffortLevel[] = ["low", "medium", "high", "max"];
+// Failures the Anthropic API can help with; the rest would fail there just the same
+const FALLBACK_CATEGORIES: ErrorCategory[] = [
+	"quota",
+	"overload",
+	"timeout",
+	"region_unsupported",
+	"model_not_enabled",
+	"permission_denied",
+	"auth_expired",
+	"unknown",
+];
+
+let activeConfig: LoadedConfig | undefined;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+	return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+	return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((v) => typeof v === "string" && v.trim() !== "");
+}
+
+function validateCapabilities(raw: unknown, where: string, errors: string[]): Partial<ModelCapabilities> {
+	const capabilities: Partial<ModelCapabilities> = {};
+	if (!isPlainObject(raw)) {
+		errors.push(`${where}: must be an object`);
+		return capabilities;
+	}
+	if (raw.betas !== undefined) {
+		if (isStringArray(raw.betas)) capabilities.betas = raw.betas;
+		else errors.push(`${where}.betas: must be an array of strings`);
+	}
+	if (raw.thinking !== undefined) {
+		if (raw.thinking === "none" || raw.thinking === "budgeted" || raw.thinking === "adaptive") {
+			capabilities.thinking = raw.thinking;
+		} else {
+			errors.push(`${where}.thinking: must be "none", "budgeted" or "adaptive"`);
+		}
+	}
+	if (raw.maxThinkingBudget !== undefined) {
+		if (isPositiveInteger(raw.maxThinkingBudget) && raw.maxThinkingBudget >= 1024) {
+			capabilities.maxThinkingBudget = raw.maxThinkingBudget;
+		} else {
+			errors.push(`${where}.maxThinkingBudget: must be an integer of at least 1024`);
+		}
+	}
+	for (const key of ["temperatureWithThinking", "toolStreaming", "prefill"] as const) {
+		if (raw[key] === undefined) continue;
+		if (typeof raw[key] === "boolean") capabilities[key] = raw[key];
+		else errors.push(`${where}.${key}: must be a boolean`);
+	}
+	if (raw.effortLevels !== undefined) {
+		if (Array.isArray(raw.effortLevels) && raw.effortLevels.every((l) => EFFORT_LEVELS.includes(l))) {
+			capabilities.effortLevels = raw.effortLevels;
+		} else {
+			errors.push(`${where}.effortLevels: must be an array of ${EFFORT_LEVELS.map((l) => `"${l}"`).join(", ")}`);
+		}
+	}
+	return capabilities;
+}
+
+function validateModelEntry(raw: unknown, where: string, errors: string[]): ModelConfigEntry | undefined {
+	if (!isPlainObject(raw)) {
+		errors.push(`${where}: must be an object`);
+		return undefined;
+	}
+	if (typeof raw.id !== "string" || !raw.id.trim()) {
+		errors.push(`${where}.id: must be a non-empty string`);
+		return undefined;
+	}
+
+	const entry: ModelConfigEntry = { id: raw.id };
+	const before = errors.length;
+
+	if (raw.hidden !== undefined) {
+		if (typeof raw.hidden === "boolean") entry.hidden = raw.hidden;
+		else errors.push(`${where}.hidden: must be a boolean`);
+	}
+	if (raw.name !== undefined) {
+		if (typeof raw.name === "string" && raw.name.trim()) entry.name = raw.name;
+		else errors.push(`${where}.name: must be a non-empty string`);
+	}
+	if (raw.reasoning !== undefined) {
+		if (typeof raw.reasoning === "boolean") entry.reasoning = raw.reasoning;
+		else errors.push(`${where}.reasoning: must be a boolean`);
+	}
+	if (raw.longContext !== undefined) {
+		if (typeof raw.longContext === "boolean") entry.longContext = raw.longContext;
+		else errors.push(`${where}.longContext: must be a boolean`);
+	}
+	if (raw.capabilities !== undefined) {
+		entry.capabilities = validateCapabilities(raw.capabilities, `${where}.capabilities`, errors);
+	}
+	if (raw.input !== undefined) {
+		if (Array.isArray(raw.input) && raw.input.length > 0 && raw.input.every((i) => i === "text" || i === "image")) {
+			entry.input = raw.input as ("text" | "image")[];
+		} else {
+			errors.push(`${where}.input: must be a non-empty array of "text" and/or "image"`);
+		}
+	}
+	for (const key of ["contextWindow", "maxTokens"] as const) {
+		if (raw[key] === undefined) continue;
+		if (isPositiveInteger(raw[key])) entry[key] = raw[key];
+		else errors.push(`${where}.${key}: must be a positive integer`);
+	}
+	if (raw.cost !== undefined) {
+		if (!isPlainObject(raw.cost)) {
+			errors.push(`${where}.cost: must be an object`);
+		} else {
+			const cost: Partial<ModelCost> = {};
+			for (const key of MODEL_COST_KEYS) {
+				if (raw.cost[key] === undefined) continue;
+				if (isNonNegativeNumber(raw.cost[key])) cost[key] = raw.cost[key];
+				else errors.push(`${where}.cost.${key}: must be a non-negative number (USD per million tokens)`);
+			}
+			entry.cost = cost;
+		}
+	}
+
+	// Skip the whole entry rather than registering a half-applied override
+	return errors.length === before ? entry : undefined;
+}
+
+/** Validates a parsed config file, keeping valid settings and describing every rejected one. */
+export function validateConfig(raw: unknown, source: string): { config: VertexClaudeConfig; errors: string[] } {
+	const config: VertexClaudeConfig = {};
+	const errors: string[] = [];
+
+	if (!isPlainObject(raw)) {
+		return { config, errors: [`${source}: expected a JSON object at the top level`] };
+	}
+
+	for (const key of ["project", "region", "impersonateServiceAccount"] as const) {
+		if (raw[key] === undefined) continue;
+		if (typeof raw[key] === "string" && raw[key].trim()) config[key] = raw[key].trim();
+		else errors.push(`${source}: ${key} must be a non-empty string`);
+	}
+	if (raw.regions !== undefined) {
+		if (isStringArray(raw.regions) && raw.regions.length > 0) config.regions = raw.regions.map((r) => r.trim());
+		else errors.push(`${source}: regions must be a non-empty array of region names`);
+	}
+	if (raw.maxTokens !== undefined) {
+		if (isPositiveInteger(raw.maxTokens)) config.maxTokens = raw.maxTokens;
+		else errors.push(`${source}: maxTokens must be a positive integer`);
+	}
+	if (raw.thinkingBudgets !== undefined) {
+		if (!isPlainObject(raw.thinkingBudgets)) {
+			errors.push(`${source}: thinkingBudgets must be an object`);
+		} else {
+			config.thinkingBudgets = {};
+			for (const [level, budget] of Object.entries(raw.thinkingBudgets)) {
+				if (!THINKING_BUDGET_LEVELS.includes(level as ThinkingBudgetLevel)) {
+					const levels = THINKING_BUDGET_LEVELS.join(", ");
+					errors.push(`${source}: thinkingBudgets.${level} is not a thinking level (${levels})`);
+				} else if (!isPositiveInteger(budget) || budget < 1024) {
+					errors.push(`${source}: thinkingBudgets.${level} must be an integer of at least 1024`);
+				} else {
+					config.thinkingBudgets[level as ThinkingBudgetLevel] = budget;
+				}
+			}
+		}
+	}
+	if (raw.betas !== undefined) {
+		if (isStringArray(raw.betas)) config.betas = raw.betas;
+		else errors.push(`${source}: betas must be an array of beta header names`);
+	}
+	if (raw.effort !== undefined) {
+		if (EFFORT_LEVELS.includes(raw.effort as EffortLevel)) {
+			config.effort = raw.effort as EffortLevel;
+		} else {
+			errors.push(`${source}: effort must be one of ${EFFORT_LEVELS.map((l) => `"${l}"`).join(", ")}`);
+		}
+	}
+	if (raw.cacheRetention !== undefined) {
+		if (raw.cacheRetention === "none" || raw.cacheRetention === "short" || raw.cacheRetention === "long") {
+			config.cacheRetention = raw.cacheRetention;
+		} else {
+			errors.push(`${source}: cacheRetention must be "none", "short" or "long"`);
+		}
+	}
+	if (raw.maxContinuations !== undefined) {
+		if (Number.isInteger(raw.maxContinuations) && (raw.maxContinuations as number) >= 0) {
+			config.maxContinuations = raw.maxContinuations as number;
+		} else {
+			errors.push(`${source}: maxContinuations must be a non-negative integer`);
+		}
+	}
+	if (raw.timeouts !== undefined) {
+		if (!isPlainObject(raw.timeouts)) {
+			errors.push(`${source}: timeouts must be an object`);
+		} else {
+			config.timeouts = {};
+			for (const [key, value] of Object.entries(raw.timeouts)) {
+				if (key !== "connectMs" && key !== "firstEventMs" && key !== "idleMs") {
+					errors.push(`${source}: timeouts.${key} is not a timeout ("connectMs", "firstEventMs" or "idleMs")`);
+				} else if (isNonNegativeNumber(value)) {
+					config.timeouts[key] = value;
+				} else {
+					errors.push(`${source}: timeouts.${key} must be a non-negative number of milliseconds`);
+				}
+			}
+		}
+	}
+	if (raw.fallback !== undefined) {
+		if (!isPlainObject(raw.fallback)) {
+			errors.push(`${source}: fallback must be an object`);
+		} else {
+			const fallback = raw.fallback;
+			config.fallback = {};
+			if (typeof fallback.enabled === "boolean") config.fallback.enabled = fallback.enabled;
+			else if (fallback.enabled !== undefined) errors.push(`${source}: fallback.enabled must be a boolean`);
+			if (fallback.on !== undefined) {
+				if (Array.isArray(fallback.on) && fallback.on.every((c) => FALLBACK_CATEGORIES.includes(c as ErrorCategory))) {
+					config.fallback.on = fallback.on as ErrorCategory[];
+				} else {
+					const categories = FALLBACK_CATEGORIES.map((c) => `"${c}"`).join(", ");
+					errors.push(`${source}: fallback.on must be an array of ${categories}`);
+				}
+			}
+			if (Number.isInteger(fallback.afterRetries) && (fallback.afterRetries as number) >= 0) {
+				config.fallback.afterRetries = fallback.afterRetries as number;
+			} else if (fallback.afterRetries !== undefined) {
+				errors.push(`${source}: fallback.afterRetries must be a non-negative integer`);
+			}
+			if (fallback.models !== undefined) {
+				const models = fallback.models;
+				if (isPlainObject(models) && Object.values(models).every((id) => typeof id === "string" && id.trim())) {
+					config.fallback.models = models as Record<string, string>;
+				} else {
+					errors.push(`${source}: fallback.models must map Vertex model IDs to Anthropic API model names`);
+				}
+			}
+		}
+	}
+	if (raw.budgets !== undefined) {
+		if (!isPlainObject(raw.budgets)) {
+			errors.push(`${source}: budgets must be an object`);
+		} else {
+			config.budgets = {};
+			for (const [period, limits] of Object.entries(raw.budgets)) {
+				if (period !== "session" && period !== "day") {
+					errors.push(`${source}: budgets.${period} is not a budget period ("session" or "day")`);
+				} else if (!isPlainObject(limits)) {
+					errors.push(`${source}: budgets.${period} must be an object`);
+				} else {
+					const valid: BudgetLimits = {};
+					for (const key of ["warn", "limit"] as const) {
+						if (limits[key] === undefined) continue;
+						if (isNonNegativeNumber(limits[key])) valid[key] = limits[key];
+						else errors.push(`${source}: budgets.${period}.${key} must be a non-negative number (USD)`);
+					}
+					config.budgets[period] = valid;
+				}
+			}
+		}
+	}
+	if (raw.discovery !== undefined) {
+		if (!isPlainObject(raw.discovery)) {
+			errors.push(`${source}: discovery must be an object`);
+		} else {
+			config.discovery = {};
+			if (typeof raw.discovery.enabled === "boolean") config.discovery.enabled = raw.discovery.enabled;
+			else if (raw.discovery.enabled !== undefined) errors.push(`${source}: discovery.enabled must be a boolean`);
+			if (isNonNegativeNumber(raw.discovery.ttlHours)) config.discovery.ttlHours = raw.discovery.ttlHours;
+			else if (raw.discovery.ttlHours !== undefined) {
+				errors.push(`${source}: discovery.ttlHours must be a non-negative number`);
+			}
+		}
+	}
+	if (raw.models !== undefined) {
+		if (!Array.isArray(raw.models)) {
+			errors.push(`${source}: models must be an array`);
+		} else {
+			config.models = [];
+			raw.models.forEach((entry, i) => {
+				const model = validateModelEntry(entry, `${source}: models[${i}]`, errors);
+				if (model) config.models!.push(model);
+			});
+		}
+	}
+
+	return { config, errors };
+}
+
+function readConfigFile(path: string): { config: VertexClaudeConfig; errors: string[] } | undefined {
+	if (!existsSync(path)) return undefined;
+	let raw: unknown;
+	try {
+		raw = JSON.parse(readFileSync(path, "utf-8"));
+	} catch (error) {
+		return { config: {}, errors: [`${path}: ${error instanceof Error ? error.message : String(error)}`] };
+	}
+	return validateConfig(raw, path);
+}
+
+/** Later configs win for scalars; thinking budgets merge per level, betas and models accumulate. */
+export function mergeConfigs(...configs: VertexClaudeConfig[]): VertexClaudeConfig {
+	const merged: VertexClaudeConfig = {};
+	for (const config of configs) {
+		if (config.project) merged.project = config.project;
+		if (config.region) merged.region = config.region;
+		if (config.impersonateServiceAccount) merged.impersonateServiceAccount = config.impersonateServiceAccount;
+		if (config.cacheRetention) merged.cacheRetention = config.cacheRetention;
+		if (config.effort) merged.effort = config.effort;
+		if (config.maxContinuations !== undefined) merged.maxContinuations = config.maxContinuations;
+		if (config.timeouts) merged.timeouts = { ...merged.timeouts, ...config.timeouts };
+		if (config.fallback) {
+			merged.fallback = {
+				...merged.fallback,
+				...config.fallback,
+				models: { ...merged.fallback?.models, ...config.fallback.models },
+			};
+		}
+		if (config.budgets) {
+			merged.budgets = {
+				session: { ...merged.budgets?.session, ...config.budgets.session },
+				day: { ...merged.budgets?.day, ...config.budgets.day },
+			};
+		}
+		if (config.regions) merged.regions = config.regions;
+		if (config.maxTokens) merged.maxTokens = config.maxTokens;
+		if (config.thinkingBudgets) merged.thinkingBudgets = { ...merged.thinkingBudgets, ...config.thinkingBudgets };
+		if (config.betas) merged.betas = [...new Set([...(merged.betas ?? []), ...config.betas])];
+		if (config.models) merged.models = [...(merged.models ?? []), ...config.models];
+		if (config.discovery) merged.discovery = { ...merged.discovery, ...config.discovery };
+	}
+	return merged;
+}
+
+/** Removes the settings only the global config may set, with an error for each one the repo tried. */
+function dropGlobalOnlySettings(config: VertexClaudeConfig, path: string, globalPath: string): string[] {
+	const ignored = (setting: string) => `${path}: ${setting} can only be set in ${globalPath}; ignored`;
+	const errors: string[] = [];
+	for (const key of GLOBAL_ONLY_SETTINGS) {
+		if (config[key] === undefined) continue;
+		delete config[key];
+		errors.push(ignored(key));
+	}
+	if (config.fallback?.enabled !== undefined) {
+		delete config.fallback.enabled;
+		errors.push(ignored("fallback.enabled"));
+	}
+	return errors;
+}
+
+export function loadConfig(
+	cwd: string = process.cwd(),
+	globalPath: string = join(homedir(), GLOBAL_CONFIG_FILE),
+): LoadedConfig {
+	const configs: VertexClaudeConfig[] = [];
+	const errors: string[] = [];
+	const sources: string[] = [];
+	const origins: LoadedConfig["origins"] = {};
+
+	for (const path of [globalPath, join(cwd, PROJECT_CONFIG_FILE)]) {
+		const result = readConfigFile(path);
+		if (!result) continue;
+		if (path !== globalPath) result.errors.push(...dropGlobalOnlySettings(result.config, path, globalPath));
+		sources.push(path);
+		configs.push(result.config);
+		errors.push(...result.errors);
+		for (const key of Object.keys(result.config) as (keyof VertexClaudeConfig)[]) origins[key] = path;
+	}
+
+	return { config: mergeConfigs(...configs), errors, sources, origins };
+}
+
+function getConfig(): VertexClaudeConfig {
+	activeConfig ??= loadConfig();
+	return activeConfig.config;
+}
+
+/**
+ * Applies config model entries on top of the built-in list: matching ids are overridden
+ * or hidden, unknown ids are added (and must bring their own pricing).
+ */
+export function mergeModels(
+	builtIn: VertexClaudeModel[],
+	entries: ModelConfigEntry[] = [],
+): { models: VertexClaudeModel[]; errors: string[] } {
+	const models = new Map(builtIn.map((m) => [m.id, { ...m, cost: { ...m.cost } }]));
+	const hidden = new Set<string>();
+	const errors: string[] = [];
+
+	for (const { hidden: hide, cost, longContext, capabilities, ...fields } of entries) {
+		if (hide) {
+			hidden.add(fields.id);
+			continue;
+		}
+		hidden.delete(fields.id);
+
+		const existing = models.get(fields.id);
+		if (existing) {
+			const merged = { ...existing, ...fields, cost: { ...existing.cost, ...cost } };
+			if (capabilities) {
+				merged.capabilities = { ...(existing.capabilities ?? inferCapabilities(fields.id)), ...capabilities };
+			}
+			if (longContext && !existing.longContext) {
+				errors.push(`models: "${fields.id}" does not support the 1M-token context window`);
+			} else if (longContext && existing.longContext && fields.contextWindow === undefined) {
+				merged.contextWindow = existing.longContext.contextWindow;
+			}
+			models.set(fields.id, merged);
+			continue;
+		}
+
+		if (longContext) {
+			errors.push(`models: "${fields.id}" does not support the 1M-token context window`);
+		}
+		const missingCost = MODEL_COST_KEYS.filter((key) => cost?.[key] === undefined);
+		if (missingCost.length > 0) {
+			errors.push(`models: new model "${fields.id}" must define cost.${missingCost.join(", cost.")}`);
+			continue;
+		}
+		models.set(fields.id, {
+			name: fields.id,
+			reasoning: false,
+			input: ["text", "image"],
+			contextWindow: 200000,
+			maxTokens: 8192,
+			...fields,
+			cost: cost as ModelCost,
+			capabilities: { ...inferCapabilities(fields.id), ...capabilities },
+		});
+	}
+
+	return { models: [...models.values()].filter((m) => !hidden.has(m.id)), errors };
+}
+
+// =============================================================================
+// Model Discovery
+// Optional lookup of publishers/anthropic in the Vertex Model Garden catalog, cached on disk.
+// =============================================================================
+
+const DISCOVERY_CACHE_PATH = join(homedir(), ".pi", "agent", "cache", "vertex-claude-models.json");
+const DISCOVERY_DEFAULT_TTL_HOURS = 24;
+const DISCOVERY_TIMEOUT_MS = 10000;
+
+type FetchLike = (
+	url: string,
+	init: { method?: string; headers: Record<string, string>; body?: string; signal?: AbortSignal },
+) => Promise<{
+	ok: boolean;
+	status: number;
+	json(): Promise<any>;
+}>;
+
+export interface ModelDiscoveryOptions {
+	project: string;
+	region: string;
+	/** Injectable HTTP call, defaults to global fetch */
+	fetch?: FetchLike;
+	/** Injectable token source, defaults to Google ADC */
+	getAccessToken?: () => Promise<string | null | undefined>;
+	/** Catalog host override, defaults to the regional Vertex endpoint */
+	baseUrl?: string;
+}
+
+interface ModelDiscoveryCache {
+	fetchedAt: number;
+	ids: string[];
+}
+
+async function getAdcAccessToken(): Promise<string | null | undefined> {
+	return (await getGoogleAuth()).getAccessToken();
+}
+
+/** Maps a catalog entry to the ID used in rawPredict URLs, e.g. claude-sonnet-4@20250514. */
+function publisherModelId(entry: { name?: string; versionId?: string }): string | undefined {
+	const name = entry.name?.split("/").pop();
+	if (!name?.startsWith("claude")) return undefined;
+	if (name.includes("@")) return name;
+	return entry.versionId && /^\d{8}$/.test(entry.versionId) ? `${name}@${entry.versionId}` : name;
+}
+
+export async function fetchPublisherModelIds(options: ModelDiscoveryOptions): Promise<string[]> {
+	const fetchImpl = options.fetch ?? (fetch as unknown as FetchLike);
+	const token = await (options.getAccessToken ?? getAdcAccessToken)();
+	if (!token) {
+		throw new Error("Model discovery requires Google Cloud credentials");
+	}
+
+	const ids = new Set<string>();
+	let pageToken: string | undefined;
+	do {
+		const url = new URL(`${options.baseUrl ?? regionBaseUrl(options.region)}/v1beta1/publishers/anthropic/models`);
+		url.searchParams.set("pageSize", "100");
+		if (pageToken) url.searchParams.set("pageToken", pageToken);
+
+		const response = await fetchImpl(url.toString(), {
+			headers: { Authorization: `Bearer ${token}`, "x-goog-user-project": options.project },
+			signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS),
+		});
+		if (!response.ok) {
+			throw new Error(`Model discovery failed with HTTP ${response.status}`);
+		}
+
+		const body = await response.json();
+		for (const entry of body?.publisherModels ?? []) {
+			const id = publisherModelId(entry);
+			if (id) ids.add(id);
+		}
+		pageToken = body?.nextPageToken || undefined;
+	} while (pageToken);
+
+	return [...ids];
+}
+
+export function readDiscoveryCache(path: string = DISCOVERY_CACHE_PATH): ModelDiscoveryCache | undefined {
+	try {
+		const cache = JSON.parse(readFileSync(path, "utf-8"));
+		if (typeof cache?.fetchedAt === "number" && isStringArray(cache.ids)) {
+			return { fetchedAt: cache.fetchedAt, ids: cache.ids };
+		}
+	} catch {
+		// Missing or corrupt cache just means discovery runs again
+	}
+	return undefined;
+}
+
+function writeDiscoveryCache(ids: string[], path: string = DISCOVERY_CACHE_PATH): void {
+	try {
+		mkdirSync(dirname(path), { recursive: true });
+		writeFileSync(path, JSON.stringify({ fetchedAt: Date.now(), ids } satisfies ModelDiscoveryCache, null, 2));
+	} catch {
+		// A read-only home directory only costs us the cache
+	}
+}
+
+export function isDiscoveryCacheFresh(cache: ModelDiscoveryCache, ttlHours: number, now: number = Date.now()): boolean {
+	return now - cache.fetchedAt < ttlHours * 60 * 60 * 1000;
+}
+
+/** Fetches the catalog and refreshes the cache; returns undefined when offline or unauthorized. */
+export async function refreshDiscoveredModels(
+	options: ModelDiscoveryOptions,
+	cachePath: string = DISCOVERY_CACHE_PATH,
+): Promise<string[] | undefined> {
+	try {
+		const ids = await fetchPublisherModelIds(options);
+		writeDiscoveryCache(ids, cachePath);
+		return ids;
+	} catch {
+		return undefined;
+	}
+}
+
+function titleCaseModelName(id: string): string {
+	const base = id.split("@")[0].replace(/^claude-/, "");
+	const parts = base.split("-");
+	const family = parts.find((p) => /^[a-z]+$/.test(p)) ?? "";
+	const version = parts.filter((p) => /^\d+$/.test(p)).join(".");
+	const familyName = family.charAt(0).toUpperCase() + family.slice(1);
+	return `Claude ${[familyName, version].filter(Boolean).join(" ")} (Vertex)`;
+}
+
+/**
+ * Metadata for a discovered model: the static entry if known, else a sibling release of the
+ * same model (same ID before "@"), else family defaults based on current list pricing.
+ */
+export function describeDiscoveredModel(id: string, known: VertexClaudeModel[]): VertexClaudeModel {
+	const exact = known.find((m) => m.id === id);
+	if (exact) return exact;
+
+	const base = id.split("@")[0];
+	const sibling = known.find((m) => m.id.split("@")[0] === base);
+	if (sibling) return { ...sibling, id };
+
+	const family = /opus/.test(id) ? "opus" : /haiku/.test(id) ? "haiku" : "sonnet";
+	const familyDefaults: Record<string, Pick<VertexClaudeModel, "cost" | "maxTokens">> = {
+		opus: { cost: { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 }, maxTokens: 32000 },
+		sonnet: { cost: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 }, maxTokens: 64000 },
+		haiku: { cost: { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 }, maxTokens: 64000 },
+	};
+	return {
+		id,
+		name: titleCaseModelName(id),
+		reasoning: !/claude-3-5|claude-3-haiku|claude-3-opus|claude-3-sonnet/.test(id),
+		input: ["text", "image"],
+		contextWindow: 200000,
+		...familyDefaults[family],
+		capabilities: inferCapabilities(id),
+	};
+}
 
-function hasAdcCredentials(): boolean {
-	if (cachedAdcExists !== null) return cachedAdcExists;
-	const adcPath = process.env.GOOGLE_APPLICATION_CREDENTIALS || DEFAULT_ADC_PATH;
-	cachedAdcExists = existsSync(adcPath);
-	return cachedAdcExists;
+/** Static table plus any discovered IDs it doesn't already list. */
+export function mergeDiscoveredModels(known: VertexClaudeModel[], discoveredIds: string[] = []): VertexClaudeModel[] {
+	const knownIds = new Set(known.map((m) => m.id));
+	const discovered = discoveredIds.filter((id) => !knownIds.has(id)).map((id) => describeDiscoveredModel(id, known));
+	return [...known, ...discovered];
 }
 
-function resolveProjectId(): { id: string; envVar: ProjectEnvVar } | undefined {
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+type ProjectEnvVar = "GOOGLE_CLOUD_PROJECT" | "GCLOUD_PROJECT";
+
+function resolveProjectId(): { id: string; envVar?: ProjectEnvVar; configFile?: string } | undefined {
 	if (process.env.GOOGLE_CLOUD_PROJECT) {
 		return { id: process.env.GOOGLE_CLOUD_PROJECT, envVar: "GOOGLE_CLOUD_PROJECT" };
 	}
 	if (process.env.GCLOUD_PROJECT) {
 		return { id: process.env.GCLOUD_PROJECT, envVar: "GCLOUD_PROJECT" };
 	}
+	const project = getConfig().project;
+	if (project) {
+		return { id: project, configFile: activeConfig?.origins.project };
+	}
 	return undefined;
 }
 
+/** Where the project came from, so a per-repo config switching the billed project is visible. */
+function describeProjectSource(project: { envVar?: ProjectEnvVar; configFile?: string }): string {
+	return project.envVar ?? project.configFile ?? "config file";
+}
+
 function sanitizeSurrogates(text: string): string {
 	return text.replace(/[\uD800-\uDFFF]/g, "\uFFFD");
 }
 
 function convertContentBlocks(
 	content: (TextContent | ImageContent)[],
+	model: Model<Api>,
 ): string | Array<{ type: "text"; text: string } | { type: "image"; source: { type: "base64"; media_type: string; data: string } }> {
+	// Same filtering as user messages: models without image input never see images
+	if (!model?.input.includes("image") && content.some((c) => c.type === "image")) {
+		const text = content.filter((c): c is TextContent => c.type === "text");
+		if (text.some((c) => c.text.trim())) return convertContentBlocks(text, model);
+		return "(image omitted: model does not accept images)";
+	}
+
 	const hasImages = content.some((c) => c.type === "image");
 	if (!hasImages) {
 		return sanitizeSurrogates(content.map((c) => (c as TextContent).text).join("\n"));
@@ -239,24 +1064,35 @@ export function convertMessages(messages: Message[], model: Model<Api>): any[] {
 			}
 		} else if (msg.role === "assistant") {
 			const blocks: ContentBlockParam[] = [];
+			// Another provider's or model's signatures are rejected, so its thinking is only ever text
+			const native = isSameModelOrigin(msg, model);
 			for (const block of msg.content) {
 				if (block.type === "text" && block.text.trim()) {
 					blocks.push({ type: "text", text: sanitizeSurrogates(block.text) });
-				} else if (block.type === "thinking" && block.thinking.trim()) {
-					// If thinking signature is missing/empty, convert to plain text
-					if ((block as ThinkingContent).thinkingSignature?.trim()) {
-						blocks.push({
-							type: "thinking" as any,
-							thinking: sanitizeSurrogates(block.thinking),
-							signature: (block as ThinkingContent).thinkingSignature!,
-						});
-					} else {
+				} else if (block.type === "thinking" && block.redacted) {
+					// Opaque payload, replayed exactly as received; unreadable anywhere else
+					if (block.thinkingSignature && native) {
+						blocks.push({ type: "redacted_thinking", data: block.thinkingSignature });
+					}
+				} else if (block.type === "thinking" && !native) {
+					if (block.thinking.trim()) {
+						blocks.push({ type: "text", text: sanitizeSurrogates(block.thinking) });
+					}
+				} else if (block.type === "thinking") {
+					if (isThinkingBlockIntact(block)) {
+						// Signed thinking goes back untouched, even sanitizing would invalidate the signature
+						blocks.push({ type: "thinking", thinking: block.thinking, signature: block.thinkingSignature! });
+					} else if (block.thinking.trim()) {
+						// Missing or no longer matching signature: keep the reasoning as plain text
+						if (block.thinkingSignature?.trim()) {
+							reportWarning("a thinking block was modified after it was received; sending it as plain text");
+						}
 						blocks.push({ type: "text", text: sanitizeSurrogates(block.thinking) });
 					}
 				} else if (block.type === "toolCall") {
 					blocks.push({
 						type: "tool_use",
-						id: block.id,
+						id: toAnthropicToolCallId(block.id),
 						name: block.name,
 						input: block.arguments,
 					});
@@ -269,8 +1105,8 @@ export function convertMessages(messages: Message[], model: Model<Api>): any[] {
 			const toolResults: any[] = [];
 			toolResults.push({
 				type: "tool_result",
-				tool_use_id: msg.toolCallId,
-				content: convertContentBlocks(msg.content),
+				tool_use_id: toAnthropicToolCallId(msg.toolCallId),
+				content: convertContentBlocks(msg.content, model),
 				is_error: msg.isError,
 			});
 
@@ -280,8 +1116,8 @@ export function convertMessages(messages: Message[], model: Model<Api>): any[] {
 				const nextMsg = messages[j] as ToolResultMessage;
 				toolResults.push({
 					type: "tool_result",
-					tool_use_id: nextMsg.toolCallId,
-					content: convertContentBlocks(nextMsg.content),
+					tool_use_id: toAnthropicToolCallId(nextMsg.toolCallId),
+					content: convertContentBlocks(nextMsg.content, model),
 					is_error: nextMsg.isError,
 				});
 				j++;
@@ -291,6 +1127,12 @@ export function convertMessages(messages: Message[], model: Model<Api>): any[] {
 		}
 	}
 
+	const normalized = normalizeConversation(params);
+	for (const repair of normalized.repairs) {
+		reportWarning(`conversation repaired before sending: ${repair}`);
+	}
+	params.splice(0, params.length, ...normalized.messages);
+
 	// Add cache control to last user message
 	if (params.length > 0) {
 		const last = params[params.length - 1];
@@ -305,16 +1147,21 @@ export function convertMessages(messages: Message[], model: Model<Api>): any[] {
 	return params;
 }
 
-function convertTools(tools: Tool[]): any[] {
-	return tools.map((tool) => ({
-		name: tool.name,
-		description: tool.description,
-		input_schema: {
-			type: "object",
-			properties: (tool.parameters as any).properties || {},
-			required: (tool.parameters as any).required || [],
-		},
-	}));
+export function convertTools(tools: Tool[]): any[] {
+	return tools.map((tool) => {
+		const { schema, warnings, errors } = translateToolSchema(tool.parameters);
+		for (const warning of warnings) {
+			reportWarning(`tool "${tool.name}" schema: ${warning}`);
+		}
+		if (errors.length > 0) {
+			throw new Error(`Tool "${tool.name}" has an invalid input schema: ${errors.join("; ")}`);
+		}
+		return {
+			name: tool.name,
+			description: tool.description,
+			input_schema: schema,
+		};
+	});
 }
 
 export function mapStopReason(reason: string): StopReason {
@@ -324,13 +1171,17 @@ export function mapStopReason(reason: string): StopReason {
 		case "stop_sequence":
 			return "stop";
 		case "max_tokens":
+		// The response ran into the context window, so it is cut off just like at max_tokens
+		case "model_context_window_exceeded":
 			return "length";
 		case "tool_use":
 			return "toolUse";
 		case "refusal":
 			return "error";
 		default: {
-			throw new Error(`Unhandled stop reason: ${reason}`);
+			// A stop reason added after this release shouldn't fail an otherwise complete response
+			reportWarning(`unrecognized stop reason "${reason}", treating it as a normal stop`);
+			return "stop";
 		}
 	}
 }
@@ -352,243 +1203,3478 @@ export function parseStreamingJson(partialJson: string): Record<string, any> {
 }
 
 // =============================================================================
-// Streaming Implementation
+// Conversation Normalization
+// Repairs message sequences Vertex rejects with a 400: same-role neighbours, tool calls
+// without results, results without calls, and a conversation that opens with the assistant.
 // =============================================================================
 
-export function streamVertexClaude(
-	model: Model<Api>,
-	context: Context,
-	options?: SimpleStreamOptions,
-): AssistantMessageEventStream {
-	const stream = createAssistantMessageEventStream();
-
-	(async () => {
-		const output: AssistantMessage = {
-			role: "assistant",
-			content: [],
-			api: model.api,
-			provider: model.provider,
-			model: model.id,
-			usage: {
-				input: 0,
-				output: 0,
-				cacheRead: 0,
-				cacheWrite: 0,
-				totalTokens: 0,
-				cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
-			},
-			stopReason: "stop",
-			timestamp: Date.now(),
-		};
+const INTERRUPTED_TOOL_RESULT = "Tool call was interrupted before it returned a result.";
+const LEADING_USER_TURN = "(Earlier conversation omitted.)";
 
-		try {
-			// Get project and region from environment
-			const projectInfo = resolveProjectId();
-			const region = process.env.GOOGLE_CLOUD_LOCATION || process.env.CLOUD_ML_REGION || "us-east5";
+/** Repairs to a converted conversation; each entry in `repairs` describes one change. */
+export function normalizeConversation(messages: MessageParam[]): { messages: MessageParam[]; repairs: string[] } {
+	const repairs: string[] = [];
+	const blocksOf = (message: MessageParam): ContentBlockParam[] =>
+		typeof message.content === "string" ? [{ type: "text", text: message.content }] : [...message.content];
 
-			if (!projectInfo) {
-				throw new Error(
-					"Vertex AI requires a project ID. Set GOOGLE_CLOUD_PROJECT or GCLOUD_PROJECT.\n" +
-						"Also ensure you've run: gcloud auth application-default login",
-				);
+	const mergeSameRole = (input: MessageParam[]) => {
+		const merged: MessageParam[] = [];
+		for (const message of input) {
+			const previous = merged[merged.length - 1];
+			if (previous?.role !== message.role) {
+				merged.push(message);
+				continue;
 			}
+			const content = [...blocksOf(previous), ...blocksOf(message)];
+			// Tool results have to lead the user turn that answers the tool calls
+			if (message.role === "user") {
+				content.sort((a, b) => Number(b.type === "tool_result") - Number(a.type === "tool_result"));
+			}
+			merged[merged.length - 1] = { role: message.role, content };
+			repairs.push(`merged consecutive ${message.role} turns (message ${merged.length})`);
+		}
+		return merged;
+	};
 
-			if (!hasAdcCredentials()) {
+	const paired: MessageParam[] = [];
+	const merged = mergeSameRole(messages);
+	for (let i = 0; i < merged.length; i++) {
+		const message = merged[i];
+		if (message.role === "assistant") {
+			paired.push(message);
+			const calls = blocksOf(message).filter((block) => block.type === "tool_use");
+			const next = merged[i + 1];
+			const answered = new Set(
+				next ? blocksOf(next).flatMap((block) => (block.type === "tool_result" ? [block.tool_use_id] : [])) : [],
+			);
+			const missing = calls.filter((call) => !answered.has(call.id));
+			if (missing.length === 0) continue;
+
+			const results: ContentBlockParam[] = missing.map((call) => ({
+				type: "tool_result",
+				tool_use_id: call.id,
+				content: INTERRUPTED_TOOL_RESULT,
+				is_error: true,
+			}));
+			for (const call of missing) repairs.push(`added an interrupted result for unanswered tool call ${call.id}`);
+			if (next?.role === "user") {
+				merged[i + 1] = { role: "user", content: [...results, ...blocksOf(next)] };
+			} else {
+				paired.push({ role: "user", content: results });
+			}
+			continue;
+		}
+
+		// A user turn may only answer the tool calls of the assistant turn right before it
+		const previous = paired[paired.length - 1];
+		const callIds = new Set(
+			previous?.role === "assistant"
+				? blocksOf(previous).flatMap((block) => (block.type === "tool_use" ? [block.id] : []))
+				: [],
+		);
+		const content = blocksOf(message).filter((block) => {
+			if (block.type !== "tool_result" || callIds.has(block.tool_use_id)) return true;
+			repairs.push(`dropped orphaned tool result ${block.tool_use_id}`);
+			return false;
+		});
+		if (content.length > 0) {
+			paired.push(typeof message.content === "string" ? message : { role: "user", content });
+		} else {
+			repairs.push(`dropped a user turn left empty (message ${i + 1})`);
+		}
+	}
+
+	// Dropping an emptied user turn can leave two assistant turns side by side
+	const normalized = mergeSameRole(paired);
+	if (normalized[0]?.role === "assistant") {
+		normalized.unshift({ role: "user", content: LEADING_USER_TURN });
+		repairs.push("added a user turn before the opening assistant turn");
+	}
+	return { messages: normalized, repairs };
+}
+
+// =============================================================================
+// Credentials
+// Resolves ADC the way google-auth-library does (key file, gcloud user login, workload
+// identity federation, metadata server) and explains what's wrong when it fails.
+// =============================================================================
+
+const CLOUD_PLATFORM_SCOPE = "https://www.googleapis.com/auth/cloud-platform";
+const DEFAULT_ADC_PATH = join(homedir(), ".config", "gcloud", "application_default_credentials.json");
+// Refresh a little before expiry so a request never starts with a token about to lapse
+const CREDENTIAL_EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+// The background refresh waits this long past the margin, which matches google-auth's own
+// eager refresh threshold; before that, getAccessToken() would just return the cached token
+const TOKEN_REFRESH_DELAY_MS = 60 * 1000;
+
+export type CredentialType =
+	| "authorized_user"
+	| "service_account"
+	| "external_account"
+	| "impersonated_service_account"
+	| "metadata_server";
+
+export interface CredentialStatus {
+	ok: boolean;
+	type?: CredentialType;
+	/** Key file path, or "metadata server" */
+	source?: string;
+	/** Service account email or impersonation target, when known */
+	account?: string;
+	impersonating?: string;
+	expiresAt?: number;
+	problem?: string;
+	remediation?: string;
+}
+
+const CREDENTIAL_REQUIRED_FIELDS: Record<Exclude<CredentialType, "metadata_server">, string[]> = {
+	authorized_user: ["client_id", "client_secret", "refresh_token"],
+	service_account: ["client_email", "private_key"],
+	external_account: ["audience", "subject_token_type", "token_url"],
+	impersonated_service_account: ["service_account_impersonation_url", "source_credentials"],
+};
+
+const LOGIN_REMEDIATION = "Run: gcloud auth application-default login";
+
+let googleAuthPromise: Promise<GoogleAuth> | undefined;
+let credentialStatusPromise: Promise<CredentialStatus> | undefined;
+let tokenRefreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+function resolveImpersonationTarget(): string | undefined {
+	return process.env.VERTEX_CLAUDE_IMPERSONATE_SERVICE_ACCOUNT || getConfig().impersonateServiceAccount;
+}
+
+/** Static checks on a credentials file: present, parseable, a known type with its required fields. */
+export function inspectCredentialFile(path: string): CredentialStatus {
+	if (!existsSync(path)) {
+		return {
+			ok: false,
+			source: path,
+			problem: `Credentials file not found: ${path}`,
+			remediation:
+				path === DEFAULT_ADC_PATH
+					? LOGIN_REMEDIATION
+					: "Point GOOGLE_APPLICATION_CREDENTIALS at an existing key file, or unset it to use gcloud credentials.",
+		};
+	}
+
+	let json: any;
+	try {
+		json = JSON.parse(readFileSync(path, "utf-8"));
+	} catch (error) {
+		return {
+			ok: false,
+			source: path,
+			problem: `Credentials file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+			remediation: `Re-create ${path}. ${LOGIN_REMEDIATION}`,
+		};
+	}
+
+	const type = json?.type as CredentialType;
+	if (!(type in CREDENTIAL_REQUIRED_FIELDS)) {
+		return {
+			ok: false,
+			source: path,
+			problem: `Unsupported credential type "${json?.type}" in ${path}`,
+			remediation: `Expected one of: ${Object.keys(CREDENTIAL_REQUIRED_FIELDS).join(", ")}. ${LOGIN_REMEDIATION}`,
+		};
+	}
+
+	const missing = CREDENTIAL_REQUIRED_FIELDS[type as keyof typeof CREDENTIAL_REQUIRED_FIELDS].filter(
+		(field) => json[field] === undefined || json[field] === "",
+	);
+	if (type === "external_account" && !json.credential_source && !json.executable) {
+		missing.push("credential_source");
+	}
+	if (missing.length > 0) {
+		return {
+			ok: false,
+			type,
+			source: path,
+			problem: `${type} credentials in ${path} are missing ${missing.join(", ")}`,
+			remediation:
+				type === "authorized_user"
+					? LOGIN_REMEDIATION
+					: "Download a fresh credentials file from the Google Cloud console.",
+		};
+	}
+
+	const impersonationUrl: string | undefined = json.service_account_impersonation_url;
+	return {
+		ok: true,
+		type,
+		source: path,
+		account: json.client_email ?? impersonationUrl?.match(/serviceAccounts\/([^:]+):/)?.[1],
+	};
+}
+
+/** Maps token-fetch failures to what the user should do about them. */
+export function describeCredentialError(error: unknown, status: CredentialStatus): CredentialStatus {
+	const message = error instanceof Error ? error.message : String(error);
+	const base = { ...status, ok: false };
+
+	if (/could not load the default credentials/i.test(message)) {
+		return {
+			...base,
+			problem: "No Google Cloud credentials found (no ADC file and no metadata server)",
+			remediation: `${LOGIN_REMEDIATION}\nor set GOOGLE_APPLICATION_CREDENTIALS to a service account key file.`,
+		};
+	}
+	if (/invalid_grant|invalid_rapt|reauth|token has been expired or revoked/i.test(message)) {
+		return {
+			...base,
+			problem: `Credentials have expired or been revoked (${message})`,
+			remediation:
+				status.type === "service_account"
+					? "The service account key was deleted or disabled. " +
+						"Create a new key and point GOOGLE_APPLICATION_CREDENTIALS at it."
+					: LOGIN_REMEDIATION,
+		};
+	}
+	if (/iam\.serviceAccounts\.getAccessToken|serviceAccountTokenCreator/i.test(message) && status.impersonating) {
+		return {
+			...base,
+			problem: `Not allowed to impersonate ${status.impersonating}`,
+			remediation:
+				`Grant roles/iam.serviceAccountTokenCreator on ${status.impersonating} to your account:\n` +
+				`gcloud iam service-accounts add-iam-policy-binding ${status.impersonating} ` +
+				`--member=user:YOUR_EMAIL --role=roles/iam.serviceAccountTokenCreator`,
+		};
+	}
+	if (/metadata|ECONNREFUSED|ENOTFOUND|ETIMEDOUT|EHOSTUNREACH/i.test(message)) {
+		return {
+			...base,
+			problem: `Could not reach the token endpoint (${message})`,
+			remediation: "Check network access to oauth2.googleapis.com, or the metadata server on GCE/GKE/Cloud Run.",
+		};
+	}
+	return {
+		...base,
+		problem: `Failed to obtain an access token: ${message}`,
+		remediation: LOGIN_REMEDIATION,
+	};
+}
+
+/** Shared GoogleAuth, wrapped to impersonate a service account when one is configured. */
+export function getGoogleAuth(): Promise<GoogleAuth> {
+	googleAuthPromise ??= (async () => {
+		const auth = new GoogleAuth({ scopes: CLOUD_PLATFORM_SCOPE });
+		const target = resolveImpersonationTarget();
+		if (!target) return auth;
+
+		const sourceClient = await auth.getClient();
+		const authClient = new Impersonated({
+			sourceClient,
+			targetPrincipal: target,
+			targetScopes: [CLOUD_PLATFORM_SCOPE],
+			lifetime: 3600,
+		});
+		return new GoogleAuth({ authClient, scopes: CLOUD_PLATFORM_SCOPE });
+	})();
+	// Don't keep a failed construction around; the next call should try again
+	googleAuthPromise.catch(() => {
+		googleAuthPromise = undefined;
+	});
+	return googleAuthPromise;
+}
+
+async function probeCredentials(): Promise<CredentialStatus> {
+	const explicitPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+	const path = explicitPath || DEFAULT_ADC_PATH;
+	const impersonating = resolveImpersonationTarget();
+
+	let status: CredentialStatus;
+	if (explicitPath || existsSync(path)) {
+		status = inspectCredentialFile(path);
+		if (!status.ok) return { ...status, impersonating };
+	} else {
+		// No key file: only the metadata server (GCE, GKE, Cloud Run) can provide credentials
+		status = { ok: true, type: "metadata_server", source: "metadata server" };
+	}
+	status.impersonating = impersonating;
+
+	try {
+		const client = await (await getGoogleAuth()).getClient();
+		const { token } = await client.getAccessToken();
+		if (!token) {
+			return describeCredentialError(new Error("empty access token"), status);
+		}
+		if (client instanceof Compute) {
+			status.account = client.serviceAccountEmail !== "default" ? client.serviceAccountEmail : status.account;
+		}
+		status.expiresAt = client.credentials?.expiry_date ?? undefined;
+		scheduleTokenRefresh(status.expiresAt);
+		return status;
+	} catch (error) {
+		return describeCredentialError(error, status);
+	}
+}
+
+/**
+ * Re-checks credentials a minute into the refresh margin, which makes the auth client
+ * fetch a new token in the background instead of on the next request.
+ */
+function scheduleTokenRefresh(expiresAt: number | undefined): void {
+	clearTimeout(tokenRefreshTimer);
+	tokenRefreshTimer = undefined;
+	// A token already inside the margin is refreshed by the next request anyway
+	const delay =
+		expiresAt === undefined ? 0 : expiresAt - CREDENTIAL_EXPIRY_MARGIN_MS + TOKEN_REFRESH_DELAY_MS - Date.now();
+	if (delay <= 0) return;
+
+	tokenRefreshTimer = setTimeout(() => {
+		tokenRefreshTimer = undefined;
+		credentialStatusPromise = undefined;
+		void getCredentialStatus();
+	}, delay);
+	// Never keep pi running just to refresh a token
+	tokenRefreshTimer.unref?.();
+}
+
+/**
+ * Current credential status. Healthy results are reused until the token nears expiry;
+ * failures are re-checked on the next call so a fresh `gcloud auth` login is picked up.
+ */
+export function getCredentialStatus(): Promise<CredentialStatus> {
+	credentialStatusPromise ??= probeCredentials();
+	const current = credentialStatusPromise;
+	current.then((status) => {
+		const expired = status.expiresAt !== undefined && status.expiresAt - CREDENTIAL_EXPIRY_MARGIN_MS < Date.now();
+		if ((!status.ok || expired) && credentialStatusPromise === current) {
+			credentialStatusPromise = undefined;
+			if (!status.ok) googleAuthPromise = undefined;
+		}
+	});
+	return current;
+}
+
+export function formatCredentialProblem(status: CredentialStatus): string {
+	return `${status.problem ?? "Vertex AI credentials are not usable"}\n${status.remediation ?? LOGIN_REMEDIATION}`;
+}
+
+// =============================================================================
+// Thinking Blocks
+// Signed thinking must be replayed byte for byte, or the API rejects the turn.
+// =============================================================================
+
+const THINKING_DIGEST_LIMIT = 512;
+// sha256(signature) -> sha256(thinking) for blocks streamed by this process, oldest first
+const thinkingDigests = new Map<string, string>();
+
+function digest(text: string): string {
+	return createHash("sha256").update(text).digest("base64url");
+}
+
+/** Remembers what a signed thinking block looked like when it was received. */
+export function recordThinkingBlock(block: ThinkingContent): void {
+	if (!block.thinkingSignature) return;
+	const key = digest(block.thinkingSignature);
+	thinkingDigests.delete(key);
+	// Redacted blocks carry a placeholder as text; only the opaque payload matters
+	thinkingDigests.set(key, digest(block.redacted ? "" : block.thinking));
+	if (thinkingDigests.size > THINKING_DIGEST_LIMIT) {
+		thinkingDigests.delete(thinkingDigests.keys().next().value!);
+	}
+}
+
+/** False when a signed block seen by this process has been edited since. Unknown blocks are trusted. */
+export function isThinkingBlockIntact(block: ThinkingContent): boolean {
+	if (!block.thinkingSignature?.trim()) return false;
+	const expected = thinkingDigests.get(digest(block.thinkingSignature));
+	return expected === undefined || expected === digest(block.redacted ? "" : block.thinking);
+}
+
+/**
+ * With thinking enabled, an assistant turn that is continued through tool results must start with
+ * its original thinking block. Returns why the pending tool loop can't be continued with thinking.
+ */
+export function findToolLoopThinkingProblem(messages: MessageCreateParamsStreaming["messages"]): string | undefined {
+	const last = messages[messages.length - 1];
+	if (!last || last.role !== "user" || !Array.isArray(last.content)) return undefined;
+	if (!last.content.some((block) => block.type === "tool_result")) return undefined;
+
+	const assistant = messages[messages.length - 2];
+	if (!assistant || assistant.role !== "assistant" || !Array.isArray(assistant.content)) return undefined;
+	const first = assistant.content[0];
+	if (first?.type === "thinking" || first?.type === "redacted_thinking") return undefined;
+	return "the assistant turn being continued has no intact thinking block before its tool calls";
+}
+
+// =============================================================================
+// Cross-Provider History
+// pi can switch providers mid-session; turns written by another provider or model
+// must not carry its signatures or tool call IDs into a Vertex request.
+// =============================================================================
+
+const TOOL_CALL_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * True when an assistant message was produced by this provider and model, so its thinking
+ * signatures can be replayed. Messages without origin fields are treated as native.
+ */
+export function isSameModelOrigin(message: AssistantMessage, model: Model<Api>): boolean {
+	if (message.api === undefined && message.provider === undefined && message.model === undefined) return true;
+	return message.api === model.api && message.provider === model.provider && message.model === model.id;
+}
+
+/**
+ * Maps a tool call ID to one Anthropic accepts. Valid IDs are kept; others are sanitized and
+ * suffixed with a hash of the original, so a tool_use and its tool_result always map to the
+ * same ID and the mapping is stable across requests (keeping the prompt cache warm).
+ */
+export function toAnthropicToolCallId(id: string): string {
+	if (TOOL_CALL_ID_PATTERN.test(id)) return id;
+	return `${id.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 40)}_${digest(id).slice(0, 22)}`;
+}
+
+// =============================================================================
+// Tool Schema Translation
+// Turns TypeBox / JSON Schema tool parameters into an input_schema Vertex accepts.
+// =============================================================================
+
+const SCHEMA_KEYWORDS = new Set([
+	"type",
+	"description",
+	"title",
+	"default",
+	"examples",
+	"enum",
+	"const",
+	"format",
+	"pattern",
+	"minLength",
+	"maxLength",
+	"minimum",
+	"maximum",
+	"exclusiveMinimum",
+	"exclusiveMaximum",
+	"multipleOf",
+	"minItems",
+	"maxItems",
+	"uniqueItems",
+	"minProperties",
+	"maxProperties",
+	"required",
+	"$ref",
+	"$comment",
+]);
+// Keywords whose values are schemas (or maps / lists of schemas) and get translated recursively
+const SCHEMA_MAP_KEYWORDS = new Set(["properties", "patternProperties", "$defs"]);
+const SCHEMA_LIST_KEYWORDS = new Set(["anyOf", "oneOf", "allOf", "prefixItems"]);
+const SCHEMA_SINGLE_KEYWORDS = new Set(["items", "additionalProperties", "not", "propertyNames", "contains"]);
+// Identifiers TypeBox emits that mean nothing to the API
+const SCHEMA_SILENTLY_DROPPED = new Set(["$id", "$schema"]);
+// TypeBox-only types mapped to the closest JSON Schema type
+const TYPEBOX_TYPE_REWRITES: Record<string, string> = { bigint: "integer", undefined: "null", void: "null" };
+
+export interface SchemaTranslation {
+	schema: Record<string, any>;
+	/** Lossy rewrites that were applied */
+	warnings: string[];
+	/** Problems that would make Vertex reject the request */
+	errors: string[];
+}
+
+function refTarget(ref: string): string | undefined {
+	const match = ref.match(/^#\/(?:\$defs|definitions)\/(.+)$/);
+	if (match) return decodeURIComponent(match[1]);
+	// TypeBox Cyclic refs use the bare definition name
+	return ref.startsWith("#") ? undefined : ref;
+}
+
+function translateSchemaNode(node: unknown, path: string, warnings: string[]): unknown {
+	if (typeof node === "boolean") return node;
+	if (!node || typeof node !== "object" || Array.isArray(node)) {
+		warnings.push(`${path}: replaced a non-schema value with {}`);
+		return {};
+	}
+
+	const result: Record<string, any> = {};
+	// Object.entries skips TypeBox's non-enumerable "~kind" / "~optional" markers
+	for (const [key, value] of Object.entries(node)) {
+		if (SCHEMA_SILENTLY_DROPPED.has(key)) continue;
+
+		if (key === "type") {
+			const types = (Array.isArray(value) ? value : [value]).map((t) => {
+				if (typeof t === "string" && TYPEBOX_TYPE_REWRITES[t]) {
+					warnings.push(`${path}: type "${t}" rewritten to "${TYPEBOX_TYPE_REWRITES[t]}"`);
+					return TYPEBOX_TYPE_REWRITES[t];
+				}
+				return t;
+			});
+			result.type = Array.isArray(value) ? [...new Set(types)] : types[0];
+		} else if (key === "$ref" && typeof value === "string") {
+			const target = refTarget(value);
+			result.$ref = target === undefined ? value : `#/$defs/${encodeURIComponent(target)}`;
+		} else if (SCHEMA_MAP_KEYWORDS.has(key) || key === "definitions") {
+			if (!value || typeof value !== "object") {
+				warnings.push(`${path}.${key}: dropped, expected an object of schemas`);
+				continue;
+			}
+			const outKey = key === "definitions" ? "$defs" : key;
+			result[outKey] ??= {};
+			for (const [name, child] of Object.entries(value)) {
+				result[outKey][name] = translateSchemaNode(child, `${path}.${key}.${name}`, warnings);
+			}
+		} else if (key === "items" && Array.isArray(value)) {
+			// Draft-07 tuple form; 2020-12 spells it prefixItems
+			warnings.push(`${path}.items: tuple form rewritten to "prefixItems"`);
+			result.prefixItems = value.map((child, i) => translateSchemaNode(child, `${path}.items[${i}]`, warnings));
+		} else if (SCHEMA_LIST_KEYWORDS.has(key)) {
+			if (!Array.isArray(value)) {
+				warnings.push(`${path}.${key}: dropped, expected an array of schemas`);
+				continue;
+			}
+			result[key] = value.map((child, i) => translateSchemaNode(child, `${path}.${key}[${i}]`, warnings));
+		} else if (SCHEMA_SINGLE_KEYWORDS.has(key)) {
+			result[key] = translateSchemaNode(value, `${path}.${key}`, warnings);
+		} else if (SCHEMA_KEYWORDS.has(key)) {
+			result[key] = value;
+		} else {
+			warnings.push(`${path}: dropped unsupported keyword "${key}"`);
+		}
+	}
+	return result;
+}
+
+/** Merges object schemas for a root-level allOf (exact) or anyOf/oneOf (loosened). */
+function mergeRootVariants(
+	root: Record<string, any>,
+	keyword: "allOf" | "anyOf" | "oneOf",
+	warnings: string[],
+): Record<string, any> {
+	const variants: Record<string, any>[] = root[keyword];
+	const { [keyword]: _, ...rest } = root;
+	const merged: Record<string, any> = { ...rest, type: "object", properties: { ...rest.properties } };
+	const requiredSets = variants.map((v) => new Set<string>(v.required ?? []));
+
+	for (const variant of variants) {
+		for (const [name, schema] of Object.entries<any>(variant.properties ?? {})) {
+			const existing = Object.hasOwn(merged.properties, name) ? merged.properties[name] : undefined;
+			merged.properties[name] =
+				existing && JSON.stringify(existing) !== JSON.stringify(schema) ? { anyOf: [existing, schema] } : schema;
+		}
+	}
+
+	const required =
+		keyword === "allOf"
+			? [...new Set([...(rest.required ?? []), ...requiredSets.flatMap((s) => [...s])])]
+			: [...new Set(rest.required ?? [])].concat(
+					[...(requiredSets[0] ?? [])].filter((name) => requiredSets.every((s) => s.has(name))),
+				);
+	if (required.length > 0) merged.required = [...new Set(required)];
+	else delete merged.required;
+
+	if (keyword !== "allOf") {
+		warnings.push(`root ${keyword} is not supported; merged ${variants.length} variants into one object`);
+	}
+	return merged;
+}
+
+function collectRefs(node: unknown, refs: Set<string>): void {
+	if (Array.isArray(node)) {
+		node.forEach((child) => collectRefs(child, refs));
+	} else if (node && typeof node === "object") {
+		for (const [key, value] of Object.entries(node)) {
+			if (key === "$ref" && typeof value === "string") refs.add(value);
+			else collectRefs(value, refs);
+		}
+	}
+}
+
+function hasDefinition(schema: Record<string, any>, name: string): boolean {
+	return !!schema.$defs && Object.hasOwn(schema.$defs, name) && !!schema.$defs[name];
+}
+
+/** Translates a tool's parameter schema, keeping references, constraints and descriptions intact. */
+export function translateToolSchema(parameters: unknown): SchemaTranslation {
+	const warnings: string[] = [];
+	const errors: string[] = [];
+	let schema = translateSchemaNode(parameters ?? {}, "root", warnings) as Record<string, any>;
+	if (typeof schema === "boolean") schema = {};
+
+	// Root-level $ref (TypeBox Cyclic) is inlined; the definitions stay for nested references
+	if (typeof schema.$ref === "string") {
+		const target = refTarget(schema.$ref);
+		const definition = target !== undefined && hasDefinition(schema, target) ? schema.$defs[target] : undefined;
+		if (definition && typeof definition === "object") {
+			const { $ref: _, ...rest } = schema;
+			schema = { ...rest, ...definition };
+		}
+	}
+
+	for (const keyword of ["allOf", "anyOf", "oneOf"] as const) {
+		if (
+			Array.isArray(schema[keyword]) &&
+			schema[keyword].every((v: any) => v && typeof v === "object" && (v.type === "object" || v.properties))
+		) {
+			schema = mergeRootVariants(schema, keyword, warnings);
+		}
+	}
+
+	if (schema.type === undefined && !schema.anyOf && !schema.oneOf && !schema.allOf) {
+		schema.type = "object";
+	}
+	if (schema.type !== "object") {
+		errors.push(`root schema must be of type "object", got ${JSON.stringify(schema.type ?? "a union")}`);
+	}
+	schema.properties ??= {};
+
+	if (schema.required !== undefined) {
+		const required = Array.isArray(schema.required) ? schema.required : [];
+		const known = required.filter(
+			(name: unknown) => typeof name === "string" && Object.hasOwn(schema.properties, name),
+		);
+		if (known.length !== required.length || !Array.isArray(schema.required)) {
+			warnings.push("dropped required entries that are not defined in properties");
+		}
+		schema.required = known;
+	}
+
+	const refs = new Set<string>();
+	collectRefs(schema, refs);
+	for (const ref of refs) {
+		const target = refTarget(ref);
+		if (ref !== "#" && (target === undefined || !hasDefinition(schema, target))) {
+			errors.push(`unresolved $ref "${ref}"`);
+		}
+	}
+
+	return { schema, warnings, errors };
+}
+
+// =============================================================================
+// Tool Choice and Structured Output
+// tool_choice and parallel tool use from the stream options, and a structured-output mode
+// that forces a synthetic tool and returns its validated arguments as JSON text.
+// =============================================================================
+
+const STRUCTURED_OUTPUT_TOOL = "structured_output";
+
+export type ToolChoice = "auto" | "any" | "none" | { type: "tool"; name: string };
+
+export interface StructuredOutput {
+	/** JSON Schema the answer must match */
+	schema: Record<string, unknown>;
+	/** Name of the synthetic tool, defaults to "structured_output" */
+	name?: string;
+	description?: string;
+}
+
+export interface ToolControls {
+	toolChoice?: ToolChoice;
+	disableParallelToolUse?: boolean;
+	structuredOutput?: StructuredOutput;
+}
+
+/** Stream options understood by this provider on top of pi's SimpleStreamOptions. */
+export interface VertexClaudeStreamOptions extends SimpleStreamOptions, ToolControls {}
+
+/** Tool controls from the stream options, falling back to same-named `metadata` entries. */
+export function resolveToolControls(options?: VertexClaudeStreamOptions): ToolControls {
+	const metadata = (options?.metadata ?? {}) as Record<string, any>;
+	return {
+		toolChoice: options?.toolChoice ?? metadata.toolChoice,
+		disableParallelToolUse: options?.disableParallelToolUse ?? metadata.disableParallelToolUse,
+		structuredOutput: options?.structuredOutput ?? metadata.structuredOutput,
+	};
+}
+
+/**
+ * Sets tool_choice (adding the synthetic tool in structured-output mode). Forcing a tool
+ * turns extended thinking off, since the API doesn't allow the two together.
+ */
+export function applyToolControls(
+	params: MessageCreateParamsStreaming,
+	controls: ToolControls,
+): { structuredTool?: Tool; warnings: string[] } {
+	const warnings: string[] = [];
+	const tools = (params.tools ?? []) as Array<{ name: string }>;
+	let choice = controls.toolChoice;
+	let structuredTool: Tool | undefined;
+
+	if (controls.structuredOutput) {
+		const { schema, name = STRUCTURED_OUTPUT_TOOL, description } = controls.structuredOutput;
+		if (tools.some((tool) => tool.name === name)) {
+			throw new VertexClaudeError(
+				"invalid_request",
+				`Structured output tool "${name}" clashes with a tool of the same name`,
+				"Pick another name with structuredOutput.name.",
+			);
+		}
+		structuredTool = {
+			name,
+			description: description ?? "Respond by calling this tool with the answer as its input.",
+			parameters: schema as Tool["parameters"],
+		};
+		params.tools = [...(params.tools ?? []), ...convertTools([structuredTool])];
+		if (choice) warnings.push("toolChoice is ignored in structured output mode");
+		choice = { type: "tool", name };
+	}
+
+	if (choice === undefined && !controls.disableParallelToolUse) return { warnings };
+	if (tools.length === 0 && !structuredTool) {
+		if (choice === "any" || typeof choice === "object") {
+			throw new VertexClaudeError("invalid_request", "toolChoice forces a tool, but the request has no tools");
+		}
+		return { warnings };
+	}
+	if (typeof choice === "object" && !structuredTool && !tools.some((tool) => tool.name === choice.name)) {
+		throw new VertexClaudeError("invalid_request", `toolChoice names "${choice.name}", which is not one of the tools`);
+	}
+
+	const toolChoice: Record<string, unknown> = typeof choice === "object" ? { ...choice } : { type: choice ?? "auto" };
+	if (controls.disableParallelToolUse) {
+		if (toolChoice.type === "none") warnings.push('disableParallelToolUse has no effect with toolChoice "none"');
+		else toolChoice.disable_parallel_tool_use = true;
+	}
+	params.tool_choice = toolChoice as unknown as MessageCreateParamsStreaming["tool_choice"];
+
+	if ((toolChoice.type === "any" || toolChoice.type === "tool") && params.thinking) {
+		delete params.thinking;
+		warnings.push("extended thinking is off for this request because it forces tool use");
+	}
+	return { structuredTool, warnings };
+}
+
+/** Validates the structured answer against its schema and returns it as compact JSON text. */
+export function parseStructuredOutput(tool: Tool, text: string): string {
+	let value: unknown;
+	try {
+		value = JSON.parse(text);
+	} catch (error) {
+		throw new VertexClaudeError(
+			"invalid_request",
+			`Structured output is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+	// Tool input is always an object; anything else can't be validated as the tool's arguments
+	if (!isPlainObject(value)) {
+		throw new VertexClaudeError("invalid_request", "Structured output is not a JSON object");
+	}
+	try {
+		const toolCall: ToolCall = { type: "toolCall", id: "structured", name: tool.name, arguments: value };
+		return JSON.stringify(validateToolArguments(tool, toolCall));
+	} catch (error) {
+		throw new VertexClaudeError(
+			"invalid_request",
+			`Structured output does not match the schema: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+}
+
+// =============================================================================
+// Image Preprocessing
+// Checks images against the API limits before upload so one bad screenshot doesn't fail the turn.
+// =============================================================================
+
+// Base64 size the API accepts per image
+const IMAGE_MAX_BYTES = 5 * 1024 * 1024;
+const IMAGE_MAX_DIMENSION = 8000;
+// The pixel limit drops once a request carries more than IMAGE_MANY_THRESHOLD images
+const IMAGE_MAX_DIMENSION_MANY = 2000;
+const IMAGE_MANY_THRESHOLD = 20;
+const IMAGE_MAX_COUNT = 100;
+// Vertex caps the whole request at 30 MB; leave room for the rest of the prompt
+const IMAGE_MAX_TOTAL_BYTES = 24 * 1024 * 1024;
+// Cached re-encodes are kept up to this many base64 bytes, oldest evicted first
+const IMAGE_CACHE_MAX_BYTES = 32 * 1024 * 1024;
+// Charged per cache entry on top of its image data, so entries without any still count
+const IMAGE_CACHE_ENTRY_BYTES = 256;
+
+type Photon = typeof import("@silvia-odwyer/photon-node");
+
+interface ImageLimits {
+	maxBytes: number;
+	maxDimension: number;
+}
+
+type PreparedImage = { image: ImageContent; change?: "resized" | "relabeled" } | { omitted: string };
+// Cached form: a re-encoded image is kept, but nothing from the caller's image, only how to change it
+type CachedPreparation = { resized: ImageContent } | { mimeType?: string } | { omitted: string };
+
+export interface ImagePreparation {
+	context: Context;
+	resized: number;
+	relabeled: number;
+	/** Why each replaced image couldn't be sent */
+	omitted: string[];
+}
+
+let photonPromise: Promise<Photon | undefined> | undefined;
+// Keyed by digest of limits + image, so the same screenshot isn't re-encoded every turn
+const preparedImages = new Map<string, { cached: CachedPreparation; bytes: number }>();
+let preparedImagesBytes = 0;
+
+/**
+ * Photon ships as a dependency, but its WASM module can fail to load on some platforms.
+ * Then oversized images are replaced with a note instead of downscaled.
+ */
+function loadPhoton(): Promise<Photon | undefined> {
+	photonPromise ??= import("@silvia-odwyer/photon-node").then(
+		(module) => ((module as any).default ?? module) as Photon,
+		() => undefined,
+	);
+	return photonPromise;
+}
+
+/** Detects the real image format from its magic bytes and reads the pixel size from the header. */
+export function sniffImage(bytes: Uint8Array): { mimeType: string; width?: number; height?: number } | undefined {
+	const buf = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const ascii = (start: number, end: number) => buf.toString("latin1", start, end);
+
+	if (buf.length >= 24 && buf.readUInt32BE(0) === 0x89504e47 && buf.readUInt32BE(4) === 0x0d0a1a0a) {
+		return { mimeType: "image/png", width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) };
+	}
+	if (buf.length >= 10 && (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a")) {
+		return { mimeType: "image/gif", width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) };
+	}
+	if (buf.length >= 16 && ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") {
+		const chunk = ascii(12, 16);
+		if (chunk === "VP8 " && buf.length >= 30) {
+			return { mimeType: "image/webp", width: buf.readUInt16LE(26) & 0x3fff, height: buf.readUInt16LE(28) & 0x3fff };
+		}
+		if (chunk === "VP8L" && buf.length >= 25) {
+			return {
+				mimeType: "image/webp",
+				width: 1 + (((buf[22] & 0x3f) << 8) | buf[21]),
+				height: 1 + (((buf[24] & 0x0f) << 10) | (buf[23] << 2) | ((buf[22] & 0xc0) >> 6)),
+			};
+		}
+		if (chunk === "VP8X" && buf.length >= 30) {
+			return { mimeType: "image/webp", width: 1 + buf.readUIntLE(24, 3), height: 1 + buf.readUIntLE(27, 3) };
+		}
+		return { mimeType: "image/webp" };
+	}
+	if (buf.length >= 3 && buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) {
+		// Walk the segments up to the start-of-frame marker, which holds the size
+		let offset = 2;
+		while (offset + 9 < buf.length && buf[offset] === 0xff) {
+			const marker = buf[offset + 1];
+			if (marker === 0xff) {
+				offset++;
+				continue;
+			}
+			const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+			if (isStartOfFrame) {
+				return { mimeType: "image/jpeg", height: buf.readUInt16BE(offset + 5), width: buf.readUInt16BE(offset + 7) };
+			}
+			offset += 2 + buf.readUInt16BE(offset + 2);
+		}
+		return { mimeType: "image/jpeg" };
+	}
+	return undefined;
+}
+
+/** Re-encodes an image within the limits, shrinking it further until the bytes fit. */
+function downscaleImage(photon: Photon, bytes: Uint8Array, limits: ImageLimits): ImageContent | undefined {
+	let image: InstanceType<Photon["PhotonImage"]>;
+	try {
+		image = photon.PhotonImage.new_from_byteslice(bytes);
+	} catch {
+		return undefined;
+	}
+	try {
+		const width = image.get_width();
+		const height = image.get_height();
+		let scale = Math.min(1, limits.maxDimension / Math.max(width, height));
+		for (let step = 0; step < 6; step++, scale *= 0.75) {
+			const resized =
+				scale < 1
+					? photon.resize(
+							image,
+							Math.max(1, Math.round(width * scale)),
+							Math.max(1, Math.round(height * scale)),
+							photon.SamplingFilter.Lanczos3,
+						)
+					: image;
+			try {
+				// Screenshots usually come out smaller as JPEG; PNG wins for flat graphics
+				const png = resized.get_bytes();
+				const jpeg = resized.get_bytes_jpeg(85);
+				const [encoded, mimeType] = png.length <= jpeg.length ? [png, "image/png"] : [jpeg, "image/jpeg"];
+				const data = Buffer.from(encoded).toString("base64");
+				if (data.length <= limits.maxBytes) return { type: "image", data, mimeType };
+			} finally {
+				if (resized !== image) resized.free();
+			}
+		}
+		return undefined;
+	} finally {
+		image.free();
+	}
+}
+
+async function prepareImage(image: ImageContent, limits: ImageLimits): Promise<PreparedImage> {
+	const bytes = Buffer.from(image.data, "base64");
+	if (bytes.length === 0) return { omitted: "image data is empty or not valid base64" };
+
+	const sniffed = sniffImage(bytes);
+	const tooLarge =
+		image.data.length > limits.maxBytes ||
+		(sniffed?.width ?? 0) > limits.maxDimension ||
+		(sniffed?.height ?? 0) > limits.maxDimension;
+
+	if (sniffed && !tooLarge) {
+		return sniffed.mimeType === image.mimeType
+			? { image }
+			: { image: { ...image, mimeType: sniffed.mimeType }, change: "relabeled" };
+	}
+
+	// Unsupported formats (BMP, TIFF, ...) and oversized images both go through a re-encode
+	const photon = await loadPhoton();
+	const converted = photon ? downscaleImage(photon, bytes, limits) : undefined;
+	if (converted) return { image: converted, change: "resized" };
+
+	if (!sniffed) return { omitted: `unsupported image format (labeled ${image.mimeType})` };
+	const size = sniffed.width && sniffed.height ? `${sniffed.width}x${sniffed.height}, ` : "";
+	return {
+		omitted:
+			`image too large (${size}${(image.data.length / 1024 / 1024).toFixed(1)} MB) ` +
+			`and it could not be downscaled below ${limits.maxDimension}px / ${limits.maxBytes / 1024 / 1024} MB`,
+	};
+}
+
+function cachePreparation(key: string, entry: PreparedImage): void {
+	const cached: CachedPreparation =
+		"omitted" in entry
+			? entry
+			: entry.change === "resized"
+				? { resized: entry.image }
+				: { mimeType: entry.change === "relabeled" ? entry.image.mimeType : undefined };
+	const bytes = IMAGE_CACHE_ENTRY_BYTES + ("resized" in cached ? cached.resized.data.length : 0);
+	preparedImages.set(key, { cached, bytes });
+	preparedImagesBytes += bytes;
+	for (const [oldest, { bytes: size }] of preparedImages) {
+		if (preparedImagesBytes <= IMAGE_CACHE_MAX_BYTES) break;
+		preparedImages.delete(oldest);
+		preparedImagesBytes -= size;
+	}
+}
+
+function restorePreparation(cached: CachedPreparation, image: ImageContent): PreparedImage {
+	if ("omitted" in cached) return cached;
+	if ("resized" in cached) return { image: cached.resized, change: "resized" };
+	return cached.mimeType ? { image: { ...image, mimeType: cached.mimeType }, change: "relabeled" } : { image };
+}
+
+/**
+ * Validates every image in the context against the API limits. Images are relabeled with their
+ * real format, downscaled when too large, and replaced with a short text note when they can't be
+ * fixed or exceed the per-request count / payload limits (oldest images go first).
+ */
+export async function prepareContextImages(model: Model<Api>, context: Context): Promise<ImagePreparation> {
+	const result: ImagePreparation = { context, resized: 0, relabeled: 0, omitted: [] };
+	// Models without image input have their images dropped in convertMessages
+	if (!model.input.includes("image")) return result;
+
+	const locations: Array<{ message: number; block: number }> = [];
+	context.messages.forEach((message, messageIndex) => {
+		if (message.role === "assistant" || typeof message.content === "string") return;
+		message.content.forEach((block, blockIndex) => {
+			if (block.type === "image") locations.push({ message: messageIndex, block: blockIndex });
+		});
+	});
+	if (locations.length === 0) return result;
+
+	const limits: ImageLimits = {
+		maxBytes: IMAGE_MAX_BYTES,
+		maxDimension: locations.length > IMAGE_MANY_THRESHOLD ? IMAGE_MAX_DIMENSION_MANY : IMAGE_MAX_DIMENSION,
+	};
+	const prepared: PreparedImage[] = [];
+	for (const { message, block } of locations) {
+		const image = (context.messages[message].content as ImageContent[])[block];
+		const key = digest(`${limits.maxDimension}:${image.mimeType}:${image.data}`);
+		const hit = preparedImages.get(key);
+		if (hit) {
+			// Move to the back, so the images still in use are the last to go
+			preparedImages.delete(key);
+			preparedImages.set(key, hit);
+			prepared.push(restorePreparation(hit.cached, image));
+		} else {
+			const entry = await prepareImage(image, limits);
+			cachePreparation(key, entry);
+			prepared.push(entry);
+		}
+	}
+
+	// Request-wide limits keep the most recent images, which are the ones the model is working with
+	let kept = 0;
+	let totalBytes = 0;
+	for (let i = prepared.length - 1; i >= 0; i--) {
+		const entry = prepared[i];
+		if ("omitted" in entry) continue;
+		if (kept >= IMAGE_MAX_COUNT) {
+			prepared[i] = { omitted: `more than ${IMAGE_MAX_COUNT} images in the conversation` };
+		} else if (totalBytes + entry.image.data.length > IMAGE_MAX_TOTAL_BYTES) {
+			prepared[i] = { omitted: "the request's total image payload limit was reached" };
+		} else {
+			kept++;
+			totalBytes += entry.image.data.length;
+		}
+	}
+
+	const messages = [...context.messages];
+	prepared.forEach((entry, i) => {
+		const { message, block } = locations[i];
+		if ("omitted" in entry) {
+			result.omitted.push(entry.omitted);
+		} else if (entry.change === "resized") {
+			result.resized++;
+		} else if (entry.change === "relabeled") {
+			result.relabeled++;
+		}
+		const original = (context.messages[message].content as ImageContent[])[block];
+		const replacement: TextContent | ImageContent =
+			"omitted" in entry ? { type: "text", text: `[Image omitted: ${entry.omitted}]` } : entry.image;
+		if (replacement === original) return;
+
+		const target = messages[message] as Exclude<Message, AssistantMessage>;
+		const content = target.content as (TextContent | ImageContent)[];
+		// Copy on first change so the caller's context is left untouched
+		const copy = content === (context.messages[message] as typeof target).content ? [...content] : content;
+		copy[block] = replacement;
+		messages[message] = { ...target, content: copy } as Message;
+	});
+	result.context = { ...context, messages };
+	return result;
+}
+
+// =============================================================================
+// Token Counting
+// =============================================================================
+
+// Conservative chars-per-token ratio so the estimate errs on the high side
+const ESTIMATE_CHARS_PER_TOKEN = 3;
+// Upper bound for one image (~1.15 megapixels at 750 pixels per token)
+const ESTIMATE_TOKENS_PER_IMAGE = 1600;
+// Tool use adds a hidden system prompt on top of the tool definitions
+const ESTIMATE_TOOL_OVERHEAD_TOKENS = 350;
+// Only pay for a count-tokens round trip when the estimate is this close to the limit
+const PRECISE_COUNT_THRESHOLD = 0.8;
+
+type PromptParams = Pick<MessageCreateParamsStreaming, "system" | "tools" | "messages">;
+// What count-tokens accepts; sampling and streaming fields of a full request make it fail
+type CountParams = PromptParams & Pick<MessageCreateParamsStreaming, "thinking">;
+
+export interface TokenCount {
+	inputTokens: number;
+	/** "vertex" when the count-tokens endpoint answered, "estimate" for the local fallback */
+	source: "vertex" | "estimate";
+	/** Local estimate per part of the prompt, useful to see what is taking up the window */
+	breakdown: { system: number; tools: number; messages: number };
+}
+
+/** Raised before sending when the prompt can't fit next to the minimum output budget. */
+export class ContextOverflowError extends Error {
+	constructor(
+		readonly inputTokens: number,
+		readonly maxTokens: number,
+		readonly contextWindow: number,
+		readonly source: TokenCount["source"],
+	) {
+		// Worded like Anthropic's own overflow error so pi's overflow detection triggers compaction
+		super(
+			`prompt is too long: ${inputTokens} tokens + ${maxTokens} max_tokens > ${contextWindow} maximum ` +
+				`(${source === "vertex" ? "counted by Vertex AI" : "estimated"} before sending)`,
+		);
+		this.name = "ContextOverflowError";
+	}
+}
+
+/** System prompt, tools and messages exactly as they are sent to Vertex. */
+function buildPromptParams(model: Model<Api>, context: Context): PromptParams {
+	const prompt: PromptParams = { messages: convertMessages(context.messages, model) };
+	if (context.systemPrompt) {
+		prompt.system = [
+			{
+				type: "text",
+				text: sanitizeSurrogates(context.systemPrompt),
+				cache_control: { type: "ephemeral" },
+			},
+		];
+	}
+	if (context.tools && context.tools.length > 0) {
+		prompt.tools = convertTools(context.tools);
+	}
+	return prompt;
+}
+
+function estimateValueTokens(value: unknown): number {
+	let chars = 0;
+	let images = 0;
+	const visit = (node: unknown) => {
+		if (typeof node === "string") {
+			chars += node.length;
+		} else if (Array.isArray(node)) {
+			node.forEach(visit);
+		} else if (node && typeof node === "object") {
+			const record = node as Record<string, unknown>;
+			if (record.type === "image") {
+				images++;
+				return;
+			}
+			for (const [key, child] of Object.entries(record)) {
+				// Signatures are opaque and not billed as text
+				if (key === "signature" || key === "cache_control") continue;
+				chars += key.length;
+				visit(child);
+			}
+		}
+	};
+	visit(value);
+	return Math.ceil(chars / ESTIMATE_CHARS_PER_TOKEN) + images * ESTIMATE_TOKENS_PER_IMAGE;
+}
+
+function estimatePromptTokens(prompt: PromptParams): TokenCount {
+	const breakdown = {
+		system: prompt.system ? estimateValueTokens(prompt.system) : 0,
+		tools: prompt.tools ? estimateValueTokens(prompt.tools) + ESTIMATE_TOOL_OVERHEAD_TOKENS : 0,
+		messages: estimateValueTokens(prompt.messages),
+	};
+	return { inputTokens: breakdown.system + breakdown.tools + breakdown.messages, source: "estimate", breakdown };
+}
+
+/** Local, offline token estimate for a context. */
+export function estimateTokens(model: Model<Api>, context: Context): TokenCount {
+	return estimatePromptTokens(buildPromptParams(model, context));
+}
+
+async function countPromptTokens(
+	client: Pick<AnthropicVertex, "messages">,
+	model: Model<Api>,
+	prompt: CountParams,
+	signal?: AbortSignal,
+): Promise<TokenCount> {
+	const estimate = estimatePromptTokens(prompt);
+	const { system, tools, messages, thinking } = prompt;
+	const body = { model: model.id, messages, ...(system && { system }), ...(tools && { tools }) };
+	try {
+		const result = await client.messages.countTokens({ ...body, ...(thinking && { thinking }) }, { signal });
+		return { ...estimate, inputTokens: result.input_tokens, source: "vertex" };
+	} catch {
+		if (signal?.aborted) throw new Error("Request was aborted");
+		return estimate;
+	}
+}
+
+/**
+ * Counts input tokens for a context with Vertex's count-tokens endpoint, falling back
+ * to the local estimate when the endpoint or credentials are unavailable.
+ */
+export async function countVertexClaudeTokens(
+	model: Model<Api>,
+	context: Context,
+	options?: { signal?: AbortSignal },
+): Promise<TokenCount> {
+	const prompt = buildPromptParams(model, (await prepareContextImages(model, context)).context);
+	const projectInfo = resolveProjectId();
+	const credentials = await getCredentialStatus();
+	if (!projectInfo || !credentials.ok) {
+		return estimatePromptTokens(prompt);
+	}
+	const client = getVertexClient(projectInfo.id, resolveRegions()[0], await getGoogleAuth());
+	return countPromptTokens(client, model, prompt, options?.signal);
+}
+
+/**
+ * Makes sure the prompt plus max_tokens fits the context window. Shrinks max_tokens when the
+ * prompt fits with a smaller (but still useful) output budget, otherwise throws ContextOverflowError.
+ * An estimate alone never throws: it runs high, so the request is sent and Vertex decides.
+ */
+export async function guardContextWindow(
+	client: Pick<AnthropicVertex, "messages">,
+	model: Model<Api>,
+	params: MessageCreateParamsStreaming,
+	signal?: AbortSignal,
+): Promise<TokenCount> {
+	let count = estimatePromptTokens(params);
+	if (count.inputTokens > (model.contextWindow - params.max_tokens) * PRECISE_COUNT_THRESHOLD) {
+		count = await countPromptTokens(client, model, params, signal);
+	}
+
+	const room = model.contextWindow - count.inputTokens;
+	if (room >= params.max_tokens) return count;
+
+	const thinkingBudget = params.thinking?.type === "enabled" ? params.thinking.budget_tokens : 0;
+	const minOutputTokens = thinkingBudget + 1024;
+	if (room < minOutputTokens) {
+		if (count.source === "estimate") return count;
+		throw new ContextOverflowError(count.inputTokens, params.max_tokens, model.contextWindow, count.source);
+	}
+	params.max_tokens = room;
+	return count;
+}
+
+// =============================================================================
+// Prompt Caching
+// Up to four breakpoints: tools, system, a rolling mid-conversation anchor and the tail.
+// =============================================================================
+
+const CACHE_LONG_TTL_BETA = "extended-cache-ttl-2025-04-11";
+// 1-hour cache writes are billed at 2x base input instead of the 1.25x 5-minute rate
+const CACHE_LONG_TTL_WRITE_MULTIPLIER = 2;
+// Anthropic looks back at most 20 blocks from a breakpoint for an earlier cache entry
+const CACHE_ANCHOR_STRIDE_BLOCKS = 16;
+const CACHEABLE_BLOCK_TYPES = new Set(["text", "image", "document", "tool_use", "tool_result"]);
+
+export type CacheTtl = "5m" | "1h";
+
+export interface CachePlan {
+	ttl?: CacheTtl;
+	breakpoints: ("tools" | "system" | "anchor" | "tail")[];
+}
+
+/** Maps pi's cache retention preference to a TTL; "none" disables caching. */
+export function resolveCacheTtl(retention: CacheRetention = "short"): CacheTtl | undefined {
+	if (retention === "none") return undefined;
+	return retention === "long" ? "1h" : "5m";
+}
+
+function lastCacheableBlock(message: { content: unknown }): Record<string, any> | undefined {
+	if (!Array.isArray(message.content)) return undefined;
+	const last = message.content[message.content.length - 1];
+	return last && CACHEABLE_BLOCK_TYPES.has(last.type) ? last : undefined;
+}
+
+/**
+ * Picks a message before the tail to anchor a breakpoint on. The anchor sits on the last
+ * message ending at or before a multiple of CACHE_ANCHOR_STRIDE_BLOCKS, so it only moves
+ * once per stride and stays within lookback of the previous anchor.
+ */
+export function findCacheAnchor(messages: MessageCreateParamsStreaming["messages"]): number {
+	const tailIndex = messages.length - 1;
+	if (tailIndex < 1) return -1;
+
+	const blockEnds: number[] = [];
+	let blocks = 0;
+	for (let i = 0; i < tailIndex; i++) {
+		const content = messages[i].content;
+		blocks += Array.isArray(content) ? content.length : 1;
+		blockEnds.push(blocks);
+	}
+
+	const boundary = Math.floor(blocks / CACHE_ANCHOR_STRIDE_BLOCKS) * CACHE_ANCHOR_STRIDE_BLOCKS;
+	if (boundary === 0) return -1;
+
+	for (let i = tailIndex - 1; i >= 0; i--) {
+		if (blockEnds[i] > boundary) continue;
+		const content = messages[i].content;
+		if (typeof content === "string" ? content.trim() : lastCacheableBlock(messages[i])) return i;
+	}
+	return -1;
+}
+
+function markMessage(message: MessageCreateParamsStreaming["messages"][number], control: object): boolean {
+	if (typeof message.content === "string") {
+		message.content = [{ type: "text", text: message.content, cache_control: control } as any];
+		return true;
+	}
+	const block = lastCacheableBlock(message);
+	if (!block) return false;
+	block.cache_control = control;
+	return true;
+}
+
+/** Replaces whatever cache_control markers the prompt carries with a planned set. */
+export function applyCachePlan(prompt: PromptParams, ttl: CacheTtl | undefined): CachePlan {
+	const plan: CachePlan = { ttl, breakpoints: [] };
+	const system = Array.isArray(prompt.system) ? prompt.system : [];
+	const tools = (prompt.tools ?? []) as Record<string, any>[];
+
+	for (const block of [...system, ...tools] as Record<string, any>[]) delete block.cache_control;
+	for (const message of prompt.messages) {
+		if (Array.isArray(message.content)) {
+			for (const block of message.content as Record<string, any>[]) delete block.cache_control;
+		}
+	}
+	if (!ttl) return plan;
+
+	const control = ttl === "1h" ? { type: "ephemeral", ttl: "1h" } : { type: "ephemeral" };
+
+	// Order matters: tools, then system, then messages is the order Anthropic builds the prefix
+	if (tools.length > 0) {
+		tools[tools.length - 1].cache_control = control;
+		plan.breakpoints.push("tools");
+	}
+	if (system.length > 0) {
+		(system[system.length - 1] as Record<string, any>).cache_control = control;
+		plan.breakpoints.push("system");
+	}
+	const anchor = findCacheAnchor(prompt.messages);
+	if (anchor >= 0 && markMessage(prompt.messages[anchor], control)) {
+		plan.breakpoints.push("anchor");
+	}
+	const tail = prompt.messages[prompt.messages.length - 1];
+	if (tail && markMessage(tail, control)) {
+		plan.breakpoints.push("tail");
+	}
+
+	return plan;
+}
+
+/** calculateCost prices every cache write at the 5-minute rate; correct it for 1-hour writes. */
+export function adjustCacheWriteCost(model: Model<Api>, usage: Usage, longTtlWriteTokens: number): void {
+	if (longTtlWriteTokens <= 0) return;
+	const shortTtlWriteTokens = Math.max(0, usage.cacheWrite - longTtlWriteTokens);
+	usage.cost.cacheWrite =
+		(model.cost.cacheWrite * shortTtlWriteTokens +
+			model.cost.input * CACHE_LONG_TTL_WRITE_MULTIPLIER * longTtlWriteTokens) /
+		1000000;
+	usage.cost.total = usage.cost.input + usage.cost.output + usage.cost.cacheRead + usage.cost.cacheWrite;
+}
+
+/** Share of prompt tokens served from cache. */
+export function cacheHitRate(usage: Usage): number {
+	const promptTokens = usage.input + usage.cacheRead + usage.cacheWrite;
+	return promptTokens > 0 ? usage.cacheRead / promptTokens : 0;
+}
+
+// =============================================================================
+// Long Context
+// Models opted into the 1M-token window send the beta header and are billed at
+// the long-context rates once the prompt passes 200K tokens.
+// =============================================================================
+
+export const LONG_CONTEXT_BETA = "context-1m-2025-08-07";
+const LONG_CONTEXT_THRESHOLD = 200000;
+
+function findLongContextTier(modelId: string): LongContextTier | undefined {
+	return VERTEX_CLAUDE_MODELS.find((m) => m.id === modelId)?.longContext;
+}
+
+/** True when the model was registered with a window that needs the long-context beta. */
+export function usesLongContext(model: Model<Api>): boolean {
+	return model.contextWindow > LONG_CONTEXT_THRESHOLD && findLongContextTier(model.id) !== undefined;
+}
+
+/**
+ * The model with the rates that apply to this usage on the backend that served it; the whole
+ * request moves to the higher tier above 200K, which both backends price the same.
+ */
+export function pricedModel(model: Model<Api>, usage: Usage, backend: Backend = "vertex"): Model<Api> {
+	const tier = findLongContextTier(model.id);
+	const promptTokens = usage.input + usage.cacheRead + usage.cacheWrite;
+	if (tier && promptTokens > LONG_CONTEXT_THRESHOLD) return { ...model, cost: tier.cost };
+	const apiCost = backend === "anthropic" ? anthropicApiCost(model.id) : undefined;
+	return apiCost ? { ...model, cost: apiCost } : model;
+}
+
+// =============================================================================
+// Model Capabilities
+// Betas, thinking mode, effort and temperature follow what each model supports.
+// =============================================================================
+
+const THINKING_DEFAULT_BUDGETS: Record<ThinkingBudgetLevel, number> = {
+	minimal: 1024,
+	low: 4096,
+	medium: 10240,
+	high: 20480,
+	xhigh: 32768,
+};
+const THINKING_MIN_BUDGET = 1024;
+const THINKING_MIN_OUTPUT_TOKENS = 1024;
+
+// Models as last registered, so capabilities from config and discovery reach the request builder
+const registeredModels = new Map<string, VertexClaudeModel>();
+
+/** Best guess for models missing from the built-in table, based on the model family in the ID. */
+export function inferCapabilities(modelId: string): ModelCapabilities {
+	if (/opus-4-[6-9]|sonnet-4-[6-9]|(?:opus|sonnet|haiku)-[5-9]/.test(modelId)) return ADAPTIVE_CAPABILITIES;
+	if (/opus-4-5/.test(modelId)) return OPUS_4_5_CAPABILITIES;
+	if (/claude-3-7/.test(modelId)) return CLAUDE_3_7_CAPABILITIES;
+	if (/claude-3/.test(modelId)) return CLAUDE_3_5_CAPABILITIES;
+	return CLAUDE_4_CAPABILITIES;
+}
+
+export function getModelCapabilities(modelId: string): ModelCapabilities {
+	return (
+		registeredModels.get(modelId)?.capabilities ??
+		VERTEX_CLAUDE_MODELS.find((m) => m.id === modelId)?.capabilities ??
+		inferCapabilities(modelId)
+	);
+}
+
+function toEffort(level: ThinkingBudgetLevel, capabilities: ModelCapabilities): EffortLevel {
+	const effort: EffortLevel = level === "minimal" || level === "low" ? "low" : level === "medium" ? "medium" : "high";
+	return level === "xhigh" && capabilities.effortLevels.includes("max") ? "max" : effort;
+}
+
+/**
+ * Applies thinking, effort and temperature to the request as far as the model supports them,
+ * reconciling conflicting options. Returns the betas the request needs and what was adjusted.
+ */
+export function applyModelCapabilities(
+	params: MessageCreateParamsStreaming,
+	model: Model<Api>,
+	capabilities: ModelCapabilities,
+	options: SimpleStreamOptions | undefined,
+	config: VertexClaudeConfig,
+): { betas: string[]; warnings: string[] } {
+	const warnings: string[] = [];
+	const betas = capabilities.toolStreaming ? [FINE_GRAINED_TOOL_STREAMING_BETA] : [];
+	// The SDK's types predate adaptive thinking and effort
+	type AdaptiveThinking = { type: "adaptive" };
+	const request = params as Omit<MessageCreateParamsStreaming, "thinking"> & {
+		thinking?: MessageCreateParamsStreaming["thinking"] | AdaptiveThinking;
+		output_config?: { effort: EffortLevel };
+	};
+	let effort = config.effort;
+
+	const level = options?.reasoning;
+	let thinking = Boolean(level && model.reasoning && capabilities.thinking !== "none");
+	if (level && model.reasoning && capabilities.thinking === "none") {
+		warnings.push(`${model.id} does not support extended thinking; the thinking level is ignored`);
+	}
+	// Sending a tool loop without its thinking block is a 400; finish this turn without thinking instead
+	const thinkingProblem = thinking ? findToolLoopThinkingProblem(params.messages) : undefined;
+	if (thinkingProblem) {
+		warnings.push(`thinking disabled for this request: ${thinkingProblem}`);
+		thinking = false;
+	}
+
+	if (thinking && level && capabilities.thinking === "adaptive") {
+		request.thinking = { type: "adaptive" };
+		effort = toEffort(level, capabilities);
+	} else if (thinking && level) {
+		const custom = level === "xhigh" ? undefined : options?.thinkingBudgets?.[level];
+		let budget = custom ?? config.thinkingBudgets?.[level] ?? THINKING_DEFAULT_BUDGETS[level];
+		if (capabilities.maxThinkingBudget && budget > capabilities.maxThinkingBudget) {
+			warnings.push(`thinking budget ${budget} exceeds ${model.id}'s limit, using ${capabilities.maxThinkingBudget}`);
+			budget = capabilities.maxThinkingBudget;
+		}
+
+		// max_tokens has to leave room for an answer after the thinking budget
+		if (params.max_tokens < budget + THINKING_MIN_OUTPUT_TOKENS) {
+			const needed = budget + THINKING_MIN_OUTPUT_TOKENS;
+			if (needed <= model.maxTokens) {
+				if (options?.maxTokens) {
+					warnings.push(`max_tokens ${params.max_tokens} is below the thinking budget ${budget}, raised to ${needed}`);
+				}
+				params.max_tokens = needed;
+			} else {
+				params.max_tokens = model.maxTokens;
+				budget = Math.max(THINKING_MIN_BUDGET, model.maxTokens - THINKING_MIN_OUTPUT_TOKENS);
+				warnings.push(`thinking budget reduced to ${budget} to fit ${model.id}'s ${model.maxTokens} output tokens`);
+			}
+		}
+
+		params.thinking = { type: "enabled", budget_tokens: budget };
+		if (capabilities.betas.includes(INTERLEAVED_THINKING_BETA)) betas.push(INTERLEAVED_THINKING_BETA);
+	}
+
+	if (effort) {
+		if (capabilities.effortLevels.includes(effort)) {
+			request.output_config = { effort };
+			if (capabilities.betas.includes(EFFORT_BETA)) betas.push(EFFORT_BETA);
+		} else if (capabilities.effortLevels.length > 0) {
+			warnings.push(`${model.id} does not accept effort "${effort}"; using the default`);
+		} else if (config.effort) {
+			warnings.push(`${model.id} does not support the effort parameter; effort is ignored`);
+		}
+	}
+
+	if (options?.temperature !== undefined) {
+		if (params.thinking && !capabilities.temperatureWithThinking) {
+			warnings.push(`temperature is not supported with thinking on ${model.id}; it is ignored`);
+		} else {
+			params.temperature = options.temperature;
+		}
+	}
+
+	return { betas, warnings };
+}
+
+// =============================================================================
+// Retry Handling
+// =============================================================================
+
+const RETRY_DEFAULT_MAX_RETRIES = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+const RETRY_MAX_TOTAL_WAIT_MS = 120000;
+const RETRY_DEFAULT_MAX_SERVER_DELAY_MS = 60000;
+
+const RETRYABLE_STATUS_CODES = new Set([429, 503, 529]);
+const RETRYABLE_ERROR_TYPES = new Set(["overloaded_error", "rate_limit_error"]);
+
+type StatusReporter = (message: string | undefined) => void;
+
+// Defaults to stderr; the extension entry point swaps in the UI status bar once a session starts
+let statusReporter: StatusReporter = (message) => {
+	if (message) console.warn(`[vertex-claude] ${message}`);
+};
+
+export function setStatusReporter(reporter: StatusReporter): void {
+	statusReporter = reporter;
+}
+
+function reportStatus(message: string | undefined): void {
+	try {
+		statusReporter(message);
+	} catch {
+		// Status reporting must never break a request
+	}
+}
+
+type WarningReporter = (message: string) => void;
+
+const defaultWarningReporter: WarningReporter = (message) => console.warn(`[vertex-claude] ${message}`);
+let warningReporter = defaultWarningReporter;
+// Each distinct warning is shown once per process, not on every request
+const reportedWarnings = new Set<string>();
+
+/** Replaces where warnings go; undefined restores the console. */
+export function setWarningReporter(reporter: WarningReporter | undefined): void {
+	warningReporter = reporter ?? defaultWarningReporter;
+}
+
+/** Forgets which warnings were shown, so each is reported again; for tests. */
+export function resetReportedWarnings(): void {
+	reportedWarnings.clear();
+	budgetWarnings.clear();
+}
+
+function reportWarning(message: string): void {
+	if (reportedWarnings.has(message)) return;
+	reportedWarnings.add(message);
+	try {
+		warningReporter(message);
+	} catch {
+		// Same as status reporting: never fail a request over a warning
+	}
+}
+
+/** Returns true for rate limit (429) and overload (529/503, overloaded_error) failures. */
+export function isRetryableError(error: unknown): boolean {
+	if (error instanceof StreamTimeoutError) return true;
+	if (!error || typeof error !== "object") return false;
+	const err = error as { status?: number; error?: any; message?: string };
+	if (typeof err.status === "number" && RETRYABLE_STATUS_CODES.has(err.status)) {
+		return true;
+	}
+	// Mid-stream SSE errors carry no status, only the error body
+	const errorType = err.error?.error?.type ?? err.error?.type;
+	if (typeof errorType === "string" && RETRYABLE_ERROR_TYPES.has(errorType)) {
+		return true;
+	}
+	const message = typeof err.message === "string" ? err.message : "";
+	return /resource[ _]exhausted|overloaded/i.test(message);
+}
+
+/** Reads `retry-after-ms` / `retry-after` (seconds or HTTP date) from an SDK error's headers. */
+export function getRetryAfterMs(error: unknown): number | undefined {
+	const headers = (error as { headers?: any })?.headers;
+	if (!headers) return undefined;
+	const read = (name: string): string | undefined => {
+		const value = typeof headers.get === "function" ? headers.get(name) : headers[name];
+		return value == null ? undefined : String(value);
+	};
+
+	const retryAfterMs = read("retry-after-ms");
+	if (retryAfterMs !== undefined) {
+		const ms = Number.parseFloat(retryAfterMs);
+		if (Number.isFinite(ms) && ms >= 0) return ms;
+	}
+
+	const retryAfter = read("retry-after");
+	if (retryAfter !== undefined) {
+		const seconds = Number.parseFloat(retryAfter);
+		if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+		const date = Date.parse(retryAfter);
+		if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+	}
+
+	return undefined;
+}
+
+/** Exponential backoff with full jitter; a server-provided retry-after takes precedence. */
+export function computeRetryDelay(attempt: number, retryAfterMs?: number, random: () => number = Math.random): number {
+	if (retryAfterMs !== undefined) {
+		return retryAfterMs;
+	}
+	const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+	return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new Error("Request was aborted"));
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(new Error("Request was aborted"));
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+// =============================================================================
+// Stall Detection
+// Separate limits for connecting, the first SSE event and gaps between events, so a hung
+// stream fails with a timeout instead of waiting until the user aborts.
+// =============================================================================
+
+const STREAM_TIMEOUT_DEFAULTS: Required<StreamTimeouts> = {
+	connectMs: 30_000,
+	firstEventMs: 180_000,
+	idleMs: 120_000,
+};
+
+export type StreamTimeoutKind = "connect" | "first_event" | "idle";
+
+const STREAM_TIMEOUT_SETTINGS: Record<StreamTimeoutKind, keyof StreamTimeouts> = {
+	connect: "connectMs",
+	first_event: "firstEventMs",
+	idle: "idleMs",
+};
+
+export class StreamTimeoutError extends Error {
+	readonly setting: keyof StreamTimeouts;
+
+	constructor(
+		readonly kind: StreamTimeoutKind,
+		readonly timeoutMs: number,
+	) {
+		const what = {
+			connect: "Timed out connecting to Vertex AI",
+			first_event: "Vertex AI sent no stream events",
+			idle: "Vertex AI stream stalled",
+		}[kind];
+		super(`${what} after ${Math.round(timeoutMs / 1000)}s`);
+		this.name = "StreamTimeoutError";
+		this.setting = STREAM_TIMEOUT_SETTINGS[kind];
+	}
+}
+
+export function resolveStreamTimeouts(timeouts?: StreamTimeouts): Required<StreamTimeouts> {
+	return { ...STREAM_TIMEOUT_DEFAULTS, ...timeouts };
+}
+
+/**
+ * Yields the events of `events`, failing with a StreamTimeoutError (after calling `abort`)
+ * when a limit runs out. Streams without a `connect` event start at the first-event limit.
+ */
+export async function* watchStream<T>(
+	events: AsyncIterable<T> & { on?: (event: "connect", listener: () => void) => unknown },
+	timeouts: Required<StreamTimeouts>,
+	abort: () => void,
+): AsyncGenerator<T> {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let rejectStalled!: (error: StreamTimeoutError) => void;
+	const stalled = new Promise<never>((_, reject) => {
+		rejectStalled = reject;
+	});
+	const arm = (kind: StreamTimeoutKind) => {
+		clearTimeout(timer);
+		const timeoutMs = timeouts[STREAM_TIMEOUT_SETTINGS[kind]];
+		if (timeoutMs <= 0) return;
+		timer = setTimeout(() => {
+			timedOut = true;
+			abort();
+			rejectStalled(new StreamTimeoutError(kind, timeoutMs));
+		}, timeoutMs);
+	};
+
+	let receivedEvent = false;
+	let timedOut = false;
+	if (typeof events.on === "function") {
+		arm("connect");
+		events.on("connect", () => {
+			if (!receivedEvent) arm("first_event");
+		});
+	} else {
+		arm("first_event");
+	}
+
+	const iterator = events[Symbol.asyncIterator]();
+	try {
+		while (true) {
+			const result = await Promise.race([iterator.next(), stalled]);
+			if (result.done) return;
+			receivedEvent = true;
+			arm("idle");
+			yield result.value;
+		}
+	} finally {
+		clearTimeout(timer);
+		// Close the source when the consumer stops early; a timed-out one was aborted already
+		if (!timedOut) await iterator.return?.();
+	}
+}
+
+// =============================================================================
+// Region Failover
+// =============================================================================
+
+const DEFAULT_REGION = "us-east5";
+
+// Last region that served each model successfully, so later turns skip exhausted regions
+const healthyRegionByModel = new Map<string, string>();
+// Set by `/vertex region`, wins over the environment and config for the rest of the session
+let regionOverride: string | undefined;
+
+export function isValidRegion(region: string): boolean {
+	return region === "global" || /^[a-z]+-[a-z]+\d+$/.test(region);
+}
+
+export function setRegionOverride(region: string | undefined): void {
+	regionOverride = region;
+}
+
+/**
+ * Ordered list of regions to try. VERTEX_CLAUDE_REGIONS takes a comma-separated list
+ * (e.g. "us-east5,europe-west1,global"); otherwise the single region from the environment,
+ * or the regions from the config file.
+ */
+export function resolveRegions(): string[] {
+	if (regionOverride) return [regionOverride];
+	const list = process.env.VERTEX_CLAUDE_REGIONS;
+	if (list) {
+		const regions = [...new Set(list.split(",").map((r) => r.trim()).filter(Boolean))];
+		if (regions.length > 0) return regions;
+	}
+	const envRegion = process.env.GOOGLE_CLOUD_LOCATION || process.env.CLOUD_ML_REGION;
+	if (envRegion) return [envRegion];
+
+	const config = getConfig();
+	if (config.regions) return [...new Set(config.regions)];
+	return [config.region || DEFAULT_REGION];
+}
+
+/** " (from <file>)" when the regions come from a config file, which a per-repo file can change unnoticed. */
+function describeRegionSource(): string {
+	if (process.env.VERTEX_CLAUDE_REGIONS?.trim() || process.env.GOOGLE_CLOUD_LOCATION || process.env.CLOUD_ML_REGION) {
+		return "";
+	}
+	const config = getConfig();
+	const file = config.regions ? activeConfig?.origins.regions : config.region ? activeConfig?.origins.region : undefined;
+	return file ? ` (from ${file})` : "";
+}
+
+/** The `global` endpoint has no region prefix in its hostname. */
+export function regionBaseUrl(region: string): string {
+	return region === "global" ? "https://aiplatform.googleapis.com" : `https://${region}-aiplatform.googleapis.com`;
+}
+
+/** Regions in failover order for a model, starting from the last one known to be healthy. */
+export function orderRegionsForModel(modelId: string, regions: string[]): string[] {
+	const healthy = healthyRegionByModel.get(modelId);
+	if (!healthy || !regions.includes(healthy)) return regions;
+	return [healthy, ...regions.filter((r) => r !== healthy)];
+}
+
+export function markRegionHealthy(modelId: string, region: string): void {
+	healthyRegionByModel.set(modelId, region);
+}
+
+/** Quota, capacity and "model not available in this region" errors are worth trying elsewhere. */
+export function isRegionFailoverError(error: unknown): boolean {
+	if (isRetryableError(error)) return true;
+	if (!error || typeof error !== "object") return false;
+	const err = error as { status?: number; message?: string };
+	if (err.status === 404) return true;
+	const message = typeof err.message === "string" ? err.message : "";
+	return /not (?:available|supported|found) (?:in|for) (?:this |the )?(?:region|location)/i.test(message);
+}
+
+// =============================================================================
+// Client Reuse
+// One AnthropicVertex client per project, region and beta headers. Reusing it keeps the
+// Google auth client (and its cached token) and the pooled keep-alive connections of
+// Node's fetch, so later turns of a tool loop skip the token fetch and TLS handshake.
+// =============================================================================
+
+const CLIENT_CACHE_LIMIT = 32;
+
+export interface VertexClientOptions {
+	projectId: string;
+	region: string;
+	googleAuth: GoogleAuth;
+	betas: string[];
+}
+
+export type VertexClientFactory = (options: VertexClientOptions) => AnthropicVertex;
+
+const defaultClientFactory: VertexClientFactory = ({ projectId, region, googleAuth, betas }) =>
+	new AnthropicVertex({
+		projectId,
+		region,
+		baseURL: `${regionBaseUrl(region)}/v1`,
+		googleAuth,
+		// Retries are handled by streamVertexClaude so they can respect streamed output and the abort signal
+		maxRetries: 0,
+		defaultHeaders: betas.length > 0 ? { "anthropic-beta": betas.join(",") } : undefined,
+	});
+
+let clientFactory = defaultClientFactory;
+const clientCache = new Map<string, { googleAuth: GoogleAuth; client: AnthropicVertex }>();
+
+/** Replaces how clients are built (tests, custom transports); drops every cached client. */
+export function setVertexClientFactory(factory: VertexClientFactory | undefined): void {
+	clientFactory = factory ?? defaultClientFactory;
+	clientCache.clear();
+}
+
+/** Cached client for a project, region and beta set; rebuilt when the auth client changes. */
+export function getVertexClient(projectId: string, region: string, googleAuth: GoogleAuth, betas: string[] = []) {
+	const key = JSON.stringify([projectId, region, betas]);
+	const cached = clientCache.get(key);
+	if (cached?.googleAuth === googleAuth) {
+		// Move to the end so the least recently used client is evicted first
+		clientCache.delete(key);
+		clientCache.set(key, cached);
+		return cached.client;
+	}
+
+	const client = clientFactory({ projectId, region, googleAuth, betas });
+	clientCache.delete(key);
+	clientCache.set(key, { googleAuth, client });
+	if (clientCache.size > CLIENT_CACHE_LIMIT) clientCache.delete(clientCache.keys().next().value!);
+	return client;
+}
+
+// =============================================================================
+// Anthropic API Fallback
+// Opt-in: when Vertex fails in a way the first-party API can absorb (quota, overload,
+// an outage), the same converted request is sent there with ANTHROPIC_API_KEY.
+// =============================================================================
+
+export type Backend = "vertex" | "anthropic";
+
+const FALLBACK_DEFAULT_CATEGORIES: ErrorCategory[] = ["quota", "overload", "timeout"];
+// Region label for attempts served by the Anthropic API in recordings and telemetry
+const ANTHROPIC_API_REGION = "anthropic-api";
+
+// First-party names and list prices of the built-in models.
+// Pricing from: https://docs.anthropic.com/en/docs/about-claude/pricing
+const ANTHROPIC_API_MODELS: Record<string, { id: string; cost: ModelCost }> = {
+	"claude-opus-4-6": { id: "claude-opus-4-6", cost: { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 } },
+	"claude-opus-4-5@20251101": {
+		id: "claude-opus-4-5-20251101",
+		cost: { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+	},
+	"claude-opus-4-1@20250805": {
+		id: "claude-opus-4-1-20250805",
+		cost: { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+	},
+	"claude-opus-4@20250514": {
+		id: "claude-opus-4-20250514",
+		cost: { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+	},
+	"claude-sonnet-4-5@20250929": {
+		id: "claude-sonnet-4-5-20250929",
+		cost: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+	},
+	"claude-sonnet-4@20250514": {
+		id: "claude-sonnet-4-20250514",
+		cost: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+	},
+	"claude-3-7-sonnet@20250219": {
+		id: "claude-3-7-sonnet-20250219",
+		cost: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+	},
+	"claude-haiku-4-5@20251001": {
+		id: "claude-haiku-4-5-20251001",
+		cost: { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+	},
+	"claude-3-5-sonnet-v2@20241022": {
+		id: "claude-3-5-sonnet-20241022",
+		cost: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+	},
+	"claude-3-5-haiku@20241022": {
+		id: "claude-3-5-haiku-20241022",
+		cost: { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+	},
+};
+
+export interface FallbackPlan {
+	apiKey: string;
+	on: ErrorCategory[];
+	afterRetries: number;
+	/** Model name sent to the Anthropic API */
+	model: string;
+}
+
+/**
+ * Anthropic API name for a Vertex model ID: the config mapping, then the built-in table,
+ * then the usual naming rule (`claude-sonnet-4@20250514` -> `claude-sonnet-4-20250514`).
+ */
+export function toAnthropicModelId(vertexId: string, overrides: Record<string, string> = {}): string {
+	return overrides[vertexId] ?? ANTHROPIC_API_MODELS[vertexId]?.id ?? vertexId.replace("@", "-");
+}
+
+/** Anthropic API list price of a model, when it is one of the built-in models. */
+export function anthropicApiCost(vertexId: string): ModelCost | undefined {
+	return ANTHROPIC_API_MODELS[vertexId]?.cost;
+}
+
+/** How a request may fall back, or undefined when fallback is off or no API key is set. */
+export function resolveFallback(
+	modelId: string,
+	config: FallbackConfig | undefined,
+	apiKey = process.env.ANTHROPIC_API_KEY,
+): FallbackPlan | undefined {
+	if (!config?.enabled || !apiKey) return undefined;
+	return {
+		apiKey,
+		on: config.on ?? FALLBACK_DEFAULT_CATEGORIES,
+		afterRetries: config.afterRetries ?? 0,
+		model: toAnthropicModelId(modelId, config.models),
+	};
+}
+
+/**
+ * Whether a failed Vertex attempt moves to the Anthropic API: the failure has to match the
+ * rules, and Vertex has either used up `afterRetries` or is about to give up anyway.
+ */
+export function shouldFallBack(
+	plan: FallbackPlan,
+	category: ErrorCategory,
+	retries: number,
+	vertexGivesUp: boolean,
+): boolean {
+	return plan.on.includes(category) && (retries >= plan.afterRetries || vertexGivesUp);
+}
+
+export type AnthropicClientFactory = (options: { apiKey: string; betas: string[] }) => Anthropic;
+
+const defaultAnthropicClientFactory: AnthropicClientFactory = ({ apiKey, betas }) =>
+	new Anthropic({
+		apiKey,
+		maxRetries: 0,
+		defaultHeaders: betas.length > 0 ? { "anthropic-beta": betas.join(",") } : undefined,
+	});
+
+let anthropicClientFactory = defaultAnthropicClientFactory;
+const anthropicClientCache = new Map<string, Anthropic>();
+
+/** Replaces how Anthropic API clients are built (tests, proxies); drops every cached client. */
+export function setAnthropicClientFactory(factory: AnthropicClientFactory | undefined): void {
+	anthropicClientFactory = factory ?? defaultAnthropicClientFactory;
+	anthropicClientCache.clear();
+}
+
+/** Cached Anthropic API client for an API key and beta set. */
+export function getAnthropicClient(apiKey: string, betas: string[] = []): Anthropic {
+	const key = JSON.stringify([digest(apiKey), betas]);
+	let client = anthropicClientCache.get(key);
+	if (!client) {
+		client = anthropicClientFactory({ apiKey, betas });
+		anthropicClientCache.set(key, client);
+		if (anthropicClientCache.size > CLIENT_CACHE_LIMIT) {
+			anthropicClientCache.delete(anthropicClientCache.keys().next().value!);
+		}
+	}
+	return client;
+}
+
+// =============================================================================
+// Error Classification
+// =============================================================================
+
+export type ErrorCategory =
+	| "auth_expired"
+	| "permission_denied"
+	| "model_not_enabled"
+	| "region_unsupported"
+	| "quota"
+	| "invalid_request"
+	| "context_overflow"
+	| "refusal"
+	| "overload"
+	| "budget_exceeded"
+	| "timeout"
+	| "unknown";
+
+/** What was being attempted, used to make remediation text concrete. */
+export interface ErrorContext {
+	model: string;
+	project?: string;
+	region?: string;
+	/** Set when the failing request went to the Anthropic API fallback */
+	backend?: Backend;
+}
+
+export interface ClassifiedError {
+	category: ErrorCategory;
+	message: string;
+	remediation?: string;
+	/** Request ID from the response, worth quoting in support tickets */
+	requestId?: string;
+	status?: number;
+}
+
+/** An error raised by this provider that is already classified. */
+export class VertexClaudeError extends Error {
+	constructor(
+		readonly category: ErrorCategory,
+		message: string,
+		readonly remediation?: string,
+		readonly requestId?: string,
+	) {
+		super(message);
+		this.name = "VertexClaudeError";
+	}
+}
+
+/** Pulls status, error type, message and request ID out of Anthropic and Google shaped errors. */
+function readErrorDetails(error: unknown): { status?: number; type?: string; message: string; requestId?: string } {
+	const err = (error && typeof error === "object" ? error : {}) as Record<string, any>;
+	// Vertex wraps some errors in a one-element array: [{ "error": { "code", "message", "status" } }]
+	const body = Array.isArray(err.error) ? err.error[0] : err.error;
+	const inner = body?.error ?? body;
+	const type = inner?.type ?? inner?.status;
+	const message =
+		typeof inner?.message === "string"
+			? inner.message
+			: error instanceof Error
+				? error.message
+				: typeof error === "string"
+					? error
+					: JSON.stringify(error);
+
+	const headers = err.headers;
+	const header = (name: string) => {
+		const value = typeof headers?.get === "function" ? headers.get(name) : headers?.[name];
+		return value == null ? undefined : String(value);
+	};
+	const requestId = err.requestID ?? header("request-id") ?? header("x-request-id") ?? body?.request_id ?? undefined;
+
+	return {
+		status: typeof err.status === "number" ? err.status : undefined,
+		type: typeof type === "string" ? type : undefined,
+		message,
+		requestId: typeof requestId === "string" && requestId ? requestId : undefined,
+	};
+}
+
+function modelGardenUrl(context: ErrorContext): string {
+	// Model Garden pages are keyed by model family, without the version suffix
+	const family = context.model.replace(/@.*$/, "");
+	const project = context.project ? `?project=${context.project}` : "";
+	return `https://console.cloud.google.com/vertex-ai/publishers/anthropic/model-garden/${family}${project}`;
+}
+
+/** Maps a Vertex/Anthropic failure to a category with remediation the user can act on. */
+export function classifyError(error: unknown, context: ErrorContext): ClassifiedError {
+	if (error instanceof VertexClaudeError) {
+		return {
+			category: error.category,
+			message: error.message,
+			remediation: error.remediation,
+			requestId: error.requestId,
+		};
+	}
+
+	const { status, type, message, requestId } = readErrorDetails(error);
+	const detail = status ? `${status} ${message}` : message;
+	const project = context.project ?? "YOUR_PROJECT";
+	const where = context.region ? ` in ${context.region}` : "";
+	const classified = (category: ErrorCategory, text: string, remediation?: string): ClassifiedError => ({
+		category,
+		message: text,
+		remediation,
+		requestId,
+		status,
+	});
+
+	if (context.backend === "anthropic") {
+		const anthropicModel = toAnthropicModelId(context.model, getConfig().fallback?.models);
+		if (status === 401 || type === "authentication_error") {
+			return classified(
+				"auth_expired",
+				`The Anthropic API rejected ANTHROPIC_API_KEY (${detail})`,
+				"Set ANTHROPIC_API_KEY to a valid key from https://console.anthropic.com/settings/keys.",
+			);
+		}
+		if (status === 404 || type === "not_found_error") {
+			return classified(
+				"model_not_enabled",
+				`The Anthropic API has no model named ${anthropicModel} (${detail})`,
+				`Map ${context.model} to its Anthropic API name with "fallback.models" in the vertex-claude config file.`,
+			);
+		}
+		if (status === 429 || type === "rate_limit_error") {
+			return classified(
+				"quota",
+				`Vertex AI failed and the Anthropic API fallback is rate limited too (${detail})`,
+				"Wait a moment and try again.",
+			);
+		}
+	}
+	if (error instanceof StreamTimeoutError) {
+		return classified(
+			"timeout",
+			`${error.message}${where}`,
+			`Retry the request. If long pauses are expected, raise "timeouts.${error.setting}" in the vertex-claude ` +
+				"config file (0 disables it).",
+		);
+	}
+	if (
+		error instanceof ContextOverflowError ||
+		/prompt is too long|exceeds? (?:the )?context (?:limit|window)/i.test(message)
+	) {
+		// Keep the original wording, pi's overflow detection matches on it
+		return classified("context_overflow", message, "Compact the conversation with /compact or start a new session.");
+	}
+	if (
+		status === 401 ||
+		type === "authentication_error" ||
+		type === "UNAUTHENTICATED" ||
+		/invalid authentication credentials|invalid_grant|invalid_rapt|expired or (?:been )?revoked/i.test(message)
+	) {
+		return classified("auth_expired", `Google Cloud credentials were rejected (${detail})`, LOGIN_REMEDIATION);
+	}
+	const quotaExceeded = () =>
+		classified(
+			"quota",
+			`Vertex AI quota exceeded for ${context.model}${where} (${detail})`,
+			`Request a quota increase at https://console.cloud.google.com/iam-admin/quotas?project=${project}, ` +
+				"or spread requests over more regions with VERTEX_CLAUDE_REGIONS.",
+		);
+	// Only a 429 or RESOURCE_EXHAUSTED is a quota problem; a 403 about a missing "quota project" is not
+	if (status === 429 || type === "rate_limit_error" || type === "RESOURCE_EXHAUSTED") {
+		return quotaExceeded();
+	}
+	if (status === 529 || status === 503 || type === "overloaded_error" || /overloaded/i.test(message)) {
+		return classified(
+			"overload",
+			`Vertex AI is overloaded${where} (${detail})`,
+			"This is temporary. Try again shortly, or add fallback regions with VERTEX_CLAUDE_REGIONS.",
+		);
+	}
+	if (/not (?:available|supported|servable) (?:in|for) (?:this |the )?(?:region|location)/i.test(message)) {
+		return classified(
+			"region_unsupported",
+			`${context.model} is not available${where} (${detail})`,
+			`Pick a region listed on the model's Model Garden page (${modelGardenUrl(context)}) ` +
+				"and set it with VERTEX_CLAUDE_REGIONS, or use the global endpoint.",
+		);
+	}
+	if (
+		/SERVICE_DISABLED|API has not been used|API is disabled/i.test(message) ||
+		(status === 403 && /aiplatform\.googleapis\.com/i.test(message) && /enable/i.test(message))
+	) {
+		return classified(
+			"permission_denied",
+			`The Vertex AI API is not enabled in project ${project} (${detail})`,
+			`Run: gcloud services enable aiplatform.googleapis.com --project=${project}`,
+		);
+	}
+	if (
+		status === 404 ||
+		/publisher model|model garden|not been enabled|terms of service|not (?:enabled|allowlisted) for/i.test(message)
+	) {
+		return classified(
+			"model_not_enabled",
+			`${context.model} is not enabled for project ${project} (${detail})`,
+			`Enable it in Model Garden: ${modelGardenUrl(context)}`,
+		);
+	}
+	if (status === 403 || type === "permission_error" || type === "PERMISSION_DENIED") {
+		return classified(
+			"permission_denied",
+			`Permission denied calling Vertex AI in project ${project} (${detail})`,
+			"Grant your account roles/aiplatform.user:\n" +
+				`gcloud projects add-iam-policy-binding ${project} --member=user:YOUR_EMAIL --role=roles/aiplatform.user`,
+		);
+	}
+	// Errors without a status, such as mid-stream ones, only say so in the message
+	if (/resource[ _]exhausted/i.test(message)) {
+		return quotaExceeded();
+	}
+	if (status === 400 || status === 413 || type === "invalid_request_error" || type === "INVALID_ARGUMENT") {
+		return classified(
+			"invalid_request",
+			`Vertex AI rejected the request (${detail})`,
+			"This is usually a provider bug or an unusual tool schema; please report it with the request ID.",
+		);
+	}
+	return classified("unknown", detail);
+}
+
+/** Renders a classified error for `errorMessage`: what happened, what to do, and the request ID. */
+export function formatClassifiedError(error: ClassifiedError): string {
+	const lines = [error.message];
+	if (error.remediation) lines.push(error.remediation);
+	if (error.requestId) lines.push(`Request ID: ${error.requestId}`);
+	return lines.join("\n");
+}
+
+// =============================================================================
+// Spend Ledger
+// Append-only JSONL of what each request cost, used for budgets and spend summaries.
+// =============================================================================
+
+const LEDGER_PATH = join(homedir(), ".pi", "agent", "vertex-claude-ledger.jsonl");
+// Requests without a session ID share one bucket per process, so a session budget is never a lifetime cap
+const DEFAULT_SESSION_ID = `process-${randomUUID()}`;
+
+export interface LedgerEntry {
+	timestamp: number;
+	/** Local calendar day, YYYY-MM-DD */
+	date: string;
+	sessionId: string;
+	model: string;
+	input: number;
+	output: number;
+	cacheRead: number;
+	cacheWrite: number;
+	cost: number;
+	/** Missing in entries written before the Anthropic API fallback existed */
+	backend?: Backend;
+}
+
+export interface SpendTotals {
+	requests: number;
+	input: number;
+	output: number;
+	cacheRead: number;
+	cacheWrite: number;
+	cost: number;
+}
+
+export interface SpendSummary {
+	total: SpendTotals;
+	byModel: Record<string, SpendTotals>;
+	byDate: Record<string, SpendTotals>;
+}
+
+// Parsed ledger and how far into the file it goes; later reads only parse what was appended since,
+// by this process or another pi process
+let ledgerCache: { path: string; inode: number; offset: number; entries: LedgerEntry[] } | undefined;
+// Soft budgets already warned about, by period and threshold; the spend in the message keeps changing
+const budgetWarnings = new Set<string>();
+
+export function ledgerDate(timestamp: number): string {
+	const date = new Date(timestamp);
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function readLedger(path: string = LEDGER_PATH): LedgerEntry[] {
+	let stats: { size: number; ino: number };
+	try {
+		stats = statSync(path);
+	} catch {
+		return [];
+	}
+	// A different or shorter file was put in place, so start over
+	if (ledgerCache?.path !== path || ledgerCache.inode !== stats.ino || stats.size < ledgerCache.offset) {
+		ledgerCache = { path, inode: stats.ino, offset: 0, entries: [] };
+	}
+	const cache = ledgerCache;
+	if (stats.size === cache.offset) return cache.entries;
+
+	const chunk = Buffer.alloc(stats.size - cache.offset);
+	const fd = openSync(path, "r");
+	try {
+		readSync(fd, chunk, 0, chunk.length, cache.offset);
+	} finally {
+		closeSync(fd);
+	}
+	// Only whole lines; one still being appended is picked up by the next read
+	const end = chunk.lastIndexOf(0x0a) + 1;
+	for (const line of chunk.subarray(0, end).toString("utf8").split("\n")) {
+		if (!line.trim()) continue;
+		try {
+			cache.entries.push(JSON.parse(line));
+		} catch {
+			// A line cut short by a crash shouldn't hide the rest of the ledger
+		}
+	}
+	cache.offset += end;
+	return cache.entries;
+}
+
+export function appendLedgerEntry(entry: LedgerEntry, path: string = LEDGER_PATH): void {
+	try {
+		mkdirSync(dirname(path), { recursive: true });
+		appendFileSync(path, `${JSON.stringify(entry)}\n`);
+	} catch (error) {
+		reportWarning(`could not update the spend ledger ${path}: ${error instanceof Error ? error.message : error}`);
+	}
+}
+
+/** Ledger entry for a finished request, or undefined when nothing was billed. */
+export function ledgerEntryFor(
+	model: string,
+	sessionId: string | undefined,
+	usage: Usage,
+	backend: Backend = "vertex",
+): LedgerEntry | undefined {
+	if (usage.totalTokens <= 0 && usage.cost.total <= 0) return undefined;
+	const timestamp = Date.now();
+	return {
+		timestamp,
+		date: ledgerDate(timestamp),
+		sessionId: sessionId ?? DEFAULT_SESSION_ID,
+		model,
+		input: usage.input,
+		output: usage.output,
+		cacheRead: usage.cacheRead,
+		cacheWrite: usage.cacheWrite,
+		cost: usage.cost.total,
+		backend,
+	};
+}
+
+/** Spend by model and by day, optionally limited to an inclusive YYYY-MM-DD range. */
+export function summarizeSpend(options: { from?: string; to?: string; path?: string } = {}): SpendSummary {
+	const empty = (): SpendTotals => ({ requests: 0, input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0 });
+	const add = (totals: SpendTotals, entry: LedgerEntry) => {
+		totals.requests++;
+		totals.input += entry.input;
+		totals.output += entry.output;
+		totals.cacheRead += entry.cacheRead;
+		totals.cacheWrite += entry.cacheWrite;
+		totals.cost += entry.cost;
+	};
+
+	const summary: SpendSummary = { total: empty(), byModel: {}, byDate: {} };
+	for (const entry of readLedger(options.path)) {
+		if (options.from && entry.date < options.from) continue;
+		if (options.to && entry.date > options.to) continue;
+		add(summary.total, entry);
+		add((summary.byModel[entry.model] ??= empty()), entry);
+		add((summary.byDate[entry.date] ??= empty()), entry);
+	}
+	return summary;
+}
+
+/**
+ * Refuses the request once a hard budget is used up and warns once a soft one is crossed.
+ * Runs before anything is sent, so a refused request costs nothing.
+ */
+export function checkBudgets(
+	budgets: VertexClaudeConfig["budgets"],
+	sessionId: string | undefined,
+	path: string = LEDGER_PATH,
+): void {
+	if (!budgets?.session && !budgets?.day) return;
+
+	const session = sessionId ?? DEFAULT_SESSION_ID;
+	const today = ledgerDate(Date.now());
+	let sessionSpend = 0;
+	let daySpend = 0;
+	for (const entry of readLedger(path)) {
+		if (entry.sessionId === session) sessionSpend += entry.cost;
+		if (entry.date === today) daySpend += entry.cost;
+	}
+
+	const checks = [
+		{ label: "session", period: `session:${session}`, limits: budgets.session, spent: sessionSpend },
+		{ label: `daily (${today})`, period: `day:${today}`, limits: budgets.day, spent: daySpend },
+	];
+	for (const { label, period, limits, spent } of checks) {
+		if (limits?.limit !== undefined && spent >= limits.limit) {
+			throw new VertexClaudeError(
+				"budget_exceeded",
+				`The ${label} Vertex AI budget of $${limits.limit.toFixed(2)} is used up ($${spent.toFixed(2)} spent)`,
+				`Raise budgets in the vertex-claude config file, or see the spend ledger at ${path}.`,
+			);
+		}
+		const warned = `${period}:${limits?.warn}`;
+		if (limits?.warn !== undefined && spent >= limits.warn && !budgetWarnings.has(warned)) {
+			budgetWarnings.add(warned);
+			reportWarning(`${label} spend $${spent.toFixed(2)} has passed the $${limits.warn.toFixed(2)} warning threshold`);
+		}
+	}
+}
+
+// =============================================================================
+// Recording and Replay
+// VERTEX_CLAUDE_RECORD_DIR writes each request and its raw stream events to a JSONL file;
+// VERTEX_CLAUDE_REPLAY feeds such a file back through the stream loop without any network.
+// =============================================================================
+
+export type RecordingLine =
+	| { type: "request"; timestamp: number; model: string; params: unknown }
+	| { type: "event"; attempt: number; region: string; event: unknown }
+	| { type: "error"; attempt: number; region: string; error: RecordedError }
+	| { type: "end"; stopReason: StopReason; errorMessage?: string };
+
+interface RecordedError {
+	message: string;
+	status?: number;
+	error?: unknown;
+	headers?: Record<string, string>;
+}
+
+export type Recorder = (line: RecordingLine) => void;
+
+/** A recorded session, handing out its attempts in the order they were made. */
+export interface Replay {
+	nextAttempt(): AsyncIterable<MessageStreamEvent> & { request_id?: string };
+}
+
+const SECRET_PATTERNS = [
+	/-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+	/\bya29\.[\w.-]+/g, // Google OAuth access tokens
+	/\bAIza[\w-]{35}\b/g, // Google API keys
+	/\bsk-ant-[\w-]{20,}/g, // Anthropic API keys
+	/\bsk-[A-Za-z0-9_-]{32,}/g, // OpenAI-style API keys
+	/\bAKIA[0-9A-Z]{16}\b/g, // AWS access key IDs
+	/\bgh[pousr]_[A-Za-z0-9]{36,}\b/g, // GitHub tokens
+	/\bxox[abposr]-[\w-]{10,}/g, // Slack tokens
+	/\beyJ[\w-]{10,}\.[\w-]{10,}\.[\w-]{10,}/g, // JWTs
+];
+const SECRET_KEYS =
+	/^(?:authorization|api[_-]?key|access[_-]?token|refresh[_-]?token|client[_-]?secret|private[_-]?key|password)$/i;
+
+let recordingCounter = 0;
+
+/** Deep copy with image data and anything that looks like a credential replaced. */
+export function redactForRecording(value: unknown): unknown {
+	if (typeof value === "string") {
+		return SECRET_PATTERNS.reduce((text, pattern) => text.replace(pattern, "[REDACTED]"), value);
+	}
+	if (Array.isArray(value)) return value.map(redactForRecording);
+	if (!value || typeof value !== "object") return value;
+
+	const result: Record<string, unknown> = {};
+	for (const [key, child] of Object.entries(value)) {
+		if (SECRET_KEYS.test(key) && typeof child === "string") {
+			result[key] = "[REDACTED]";
+		} else if (key === "source" && (child as any)?.type === "base64" && typeof (child as any).data === "string") {
+			const data: string = (child as any).data;
+			const summary = `[image redacted: ${data.length} base64 chars, sha256 ${digest(data)}]`;
+			result[key] = { ...(child as object), data: summary };
+		} else {
+			result[key] = redactForRecording(child);
+		}
+	}
+	return result;
+}
+
+/** Opens a new JSONL file in `dir` for one request; undefined when recording is off or the dir is unusable. */
+export function createRecorder(dir: string | undefined, modelId: string): Recorder | undefined {
+	if (!dir) return undefined;
+	const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+	const path = join(dir, `${stamp}-${process.pid}-${++recordingCounter}-${modelId.replace(/[^\w.-]/g, "_")}.jsonl`);
+	try {
+		mkdirSync(dir, { recursive: true });
+		writeFileSync(path, "");
+	} catch (error) {
+		reportWarning(`recording disabled, cannot write to ${dir}: ${error instanceof Error ? error.message : error}`);
+		return undefined;
+	}
+	return (line) => {
+		try {
+			appendFileSync(path, `${JSON.stringify(redactForRecording(line))}\n`);
+		} catch {
+			// A full disk shouldn't take the request down with it
+		}
+	};
+}
+
+export function recordedError(error: unknown): RecordedError {
+	const err = (error && typeof error === "object" ? error : {}) as Record<string, any>;
+	const headers: Record<string, string> = {};
+	if (typeof err.headers?.forEach === "function") {
+		err.headers.forEach((value: string, name: string) => {
+			headers[name] = value;
+		});
+	}
+	return {
+		message: error instanceof Error ? error.message : String(error),
+		status: typeof err.status === "number" ? err.status : undefined,
+		error: err.error,
+		headers: Object.keys(headers).length > 0 ? headers : undefined,
+	};
+}
+
+/** Loads a recording made with VERTEX_CLAUDE_RECORD_DIR. */
+export function loadReplay(path: string): Replay {
+	const attempts = new Map<number, { events: MessageStreamEvent[]; error?: RecordedError }>();
+	for (const line of readFileSync(path, "utf8").split("\n")) {
+		if (!line.trim()) continue;
+		const entry = JSON.parse(line) as RecordingLine;
+		if (entry.type !== "event" && entry.type !== "error") continue;
+		const attempt = attempts.get(entry.attempt) ?? { events: [] };
+		if (entry.type === "event") attempt.events.push(entry.event as MessageStreamEvent);
+		else attempt.error = entry.error;
+		attempts.set(entry.attempt, attempt);
+	}
+
+	const ordered = [...attempts.entries()].sort(([a], [b]) => a - b).map(([, attempt]) => attempt);
+	let next = 0;
+	return {
+		nextAttempt() {
+			const attempt = ordered[next++];
+			return {
+				async *[Symbol.asyncIterator]() {
+					if (!attempt) throw new Error(`Replay ${path} has no recorded attempt #${next}`);
+					yield* attempt.events;
+					if (attempt.error) {
+						// Shaped like an SDK APIError so retry, failover and classification behave as recorded
+						throw Object.assign(new Error(attempt.error.message), {
+							status: attempt.error.status,
+							error: attempt.error.error,
+							headers: new Headers(attempt.error.headers ?? {}),
+						});
+					}
+				},
+			};
+		},
+	};
+}
+
+// =============================================================================
+// Continuation
+// Opt-in (`maxContinuations`): a response cut off by max_tokens is requested again and the rest
+// is streamed into the block it stopped in. Text goes on from an assistant prefill of what was
+// written so far; a tool call cut off mid-arguments is asked for again and streamed whole.
+// =============================================================================
+
+/** Next request for a cut-off response, and the block its output is streamed into. */
+export interface ContinuationPlan {
+	params: MessageCreateParamsStreaming;
+	/** The text the prefill ends with, or the cut-off tool call */
+	resume: TextContent | ToolCall;
+}
+
+/**
+ * Plans the continuation of a response that stopped at max_tokens, or returns undefined when
+ * it can't be continued. Text needs a prefill, which models without `prefill` support reject.
+ * Partial tool arguments can't be prefilled, so a cut-off tool call is dropped and the model is
+ * told to make the same call again in full; a finished tool call needs its result first and
+ * ends the response. Continued requests run without extended thinking.
+ */
+export function planContinuation(
+	params: MessageCreateParamsStreaming,
+	content: AssistantMessage["content"],
+	prefill = true,
+): ContinuationPlan | undefined {
+	const last = content.at(-1);
+	if (content.some((block) => block.type === "toolCall" && block !== last)) return undefined;
+
+	const text = content
+		.filter((block): block is TextContent => block.type === "text" && block.text.trim() !== "")
+		.map((block) => ({ type: "text" as const, text: block.text }));
+	// The API rejects an assistant message ending in whitespace; only the copy sent back is trimmed
+	if (text.length > 0) text[text.length - 1].text = text[text.length - 1].text.trimEnd();
+	const next: MessageCreateParamsStreaming = { ...params, messages: [...params.messages] };
+	delete next.thinking;
+
+	if (last?.type === "toolCall") {
+		if (text.length > 0) next.messages.push({ role: "assistant", content: text });
+		next.messages.push({
+			role: "user",
+			content:
+				`Your response was cut off by the output token limit while calling ${last.name}. ` +
+				`Call ${last.name} again with its complete arguments.`,
+		});
+		next.tool_choice = { type: "tool", name: last.name, disable_parallel_tool_use: true };
+		return { params: next, resume: last };
+	}
+
+	if (!prefill || last?.type !== "text" || last.text.trim() === "") return undefined;
+	next.messages.push({ role: "assistant", content: text });
+	return { params: next, resume: last };
+}
+
+/** Token and cost totals of two usages, for responses stitched from several requests. */
+export function addUsage(a: Usage, b: Usage): Usage {
+	return {
+		input: a.input + b.input,
+		output: a.output + b.output,
+		cacheRead: a.cacheRead + b.cacheRead,
+		cacheWrite: a.cacheWrite + b.cacheWrite,
+		totalTokens: a.totalTokens + b.totalTokens,
+		cost: {
+			input: a.cost.input + b.cost.input,
+			output: a.cost.output + b.cost.output,
+			cacheRead: a.cost.cacheRead + b.cost.cacheRead,
+			cacheWrite: a.cost.cacheWrite + b.cost.cacheWrite,
+			total: a.cost.total + b.cost.total,
+		},
+	};
+}
+
+// =============================================================================
+// Interrupted Streams
+// An error partway through a response keeps what was streamed and says where it stopped.
+// =============================================================================
+
+export interface StreamInterruption {
+	/** Content blocks that finished before the error */
+	completedBlocks: number;
+	/** The block that was being streamed when the error arrived */
+	openBlock?: { contentIndex: number; type: "text" | "thinking" | "toolCall"; name?: string; receivedChars: number };
+	/** Tool calls whose JSON arguments were cut off; their arguments are a best-effort parse of `partialJson` */
+	incompleteToolCalls: Array<{ id: string; name: string }>;
+	outputTokens: number;
+}
+
+/** Raised for an SSE `error` event; shaped like the SDK's APIError so classification reads the body. */
+export class StreamErrorEvent extends Error {
+	readonly status = undefined;
+
+	constructor(readonly error: { type: "error"; error?: { type?: string; message?: string } }) {
+		super(error.error?.message ?? "Vertex AI sent an error event");
+		this.name = "StreamErrorEvent";
+	}
+}
+
+/**
+ * Closes blocks left open by an interrupted stream. Text and thinking are kept as received;
+ * tool calls get their partial JSON parsed as far as it goes and are listed as incomplete.
+ * An incomplete tool call keeps the raw `partialJson` it received, which finished calls never
+ * carry, so it can't be mistaken for one.
+ */
+export function closeInterruptedBlocks(content: AssistantMessage["content"], outputTokens: number): StreamInterruption {
+	const interruption: StreamInterruption = { completedBlocks: 0, incompleteToolCalls: [], outputTokens };
+	content.forEach((block, contentIndex) => {
+		const open = block as typeof block & { index?: number; partialJson?: string };
+		if (open.index === undefined) {
+			interruption.completedBlocks++;
+			return;
+		}
+		delete open.index;
+		if (block.type === "toolCall") {
+			const json = open.partialJson ?? "";
+			block.arguments = parseStreamingJson(json);
+			open.partialJson = json;
+			interruption.incompleteToolCalls.push({ id: block.id, name: block.name });
+			interruption.openBlock = { contentIndex, type: "toolCall", name: block.name, receivedChars: json.length };
+		} else if (block.type === "thinking" || block.type === "text") {
+			const received = block.type === "text" ? block.text : block.thinking;
+			interruption.openBlock = { contentIndex, type: block.type, receivedChars: received.length };
+		}
+	});
+	return interruption;
+}
+
+export function describeInterruption(interruption: StreamInterruption): string {
+	const { completedBlocks, openBlock, outputTokens } = interruption;
+	let where = `after ${completedBlocks} complete content block${completedBlocks === 1 ? "" : "s"}`;
+	if (openBlock?.type === "toolCall") {
+		where += `, in tool call "${openBlock.name}" with ${openBlock.receivedChars} chars of incomplete JSON arguments`;
+	} else if (openBlock) {
+		where += `, ${openBlock.receivedChars} chars into a ${openBlock.type} block`;
+	}
+	return `Response interrupted ${where} (${outputTokens} output tokens); the partial response is kept`;
+}
+
+// =============================================================================
+// Telemetry
+// Optional OpenTelemetry spans and metrics per request. `@opentelemetry/api` is loaded only
+// when installed, and without a registered SDK its tracer and meter record nothing.
+// =============================================================================
+
+const OTEL_API_MODULE = "@opentelemetry/api";
+const TELEMETRY_SCOPE = "pi-vertex-claude";
+const TELEMETRY_PROVIDER_NAME = "gcp.vertex_ai";
+// SpanStatusCode.ERROR in @opentelemetry/api
+const SPAN_STATUS_ERROR = 2;
+
+export type TelemetryAttributes = Record<string, string | number | boolean | string[] | undefined>;
+
+export interface TelemetrySpan {
+	setAttributes(attributes: TelemetryAttributes): unknown;
+	setStatus(status: { code: number; message?: string }): unknown;
+	recordException(exception: Error | string): unknown;
+	end(): unknown;
+}
+
+interface TelemetryInstrumentOptions {
+	description?: string;
+	unit?: string;
+}
+
+/** The parts of `@opentelemetry/api` used here, typed here because the package is optional. */
+export interface TelemetryApi {
+	trace: {
+		getTracer(name: string): {
+			startSpan(name: string, options?: { attributes?: TelemetryAttributes }, context?: unknown): TelemetrySpan;
+		};
+		setSpan(context: unknown, span: TelemetrySpan): unknown;
+	};
+	context: { active(): unknown };
+	metrics: {
+		getMeter(name: string): {
+			createCounter(
+				name: string,
+				options?: TelemetryInstrumentOptions,
+			): { add(value: number, attributes?: TelemetryAttributes): void };
+			createHistogram(
+				name: string,
+				options?: TelemetryInstrumentOptions,
+			): { record(value: number, attributes?: TelemetryAttributes): void };
+		};
+	};
+}
+
+type TelemetryInstruments = ReturnType<typeof createTelemetryInstruments>;
+
+/** How a request ended, for the request span and metrics. */
+export interface RequestOutcome {
+	backend: Backend;
+	region?: string;
+	project?: string;
+	/** Stop reason as sent by the API, when one arrived */
+	stopReason?: string;
+	timeToFirstTokenMs?: number;
+	requestId?: string;
+	errorCategory?: ErrorCategory;
+}
+
+/** Spans and metrics of one streamed response, including its retries and continuations. */
+export interface RequestTelemetry {
+	/** Starts a child span of the request; the returned function ends it, as failed when given an error. */
+	span(name: string, attributes?: TelemetryAttributes): (error?: unknown) => void;
+	/** Counts an attempt that failed and is tried again. */
+	retry(category: ErrorCategory, region: string): void;
+	/** Ends the request span and records the request metrics. */
+	end(message: AssistantMessage, outcome: RequestOutcome): void;
+}
+
+let telemetryApiPromise: Promise<TelemetryApi | undefined> | undefined;
+let telemetryInstruments: { api: TelemetryApi; instruments: TelemetryInstruments } | undefined;
+
+/** Uses `api` instead of the installed `@opentelemetry/api`; `undefined` goes back to loading it. */
+export function setTelemetryApi(api: TelemetryApi | undefined): void {
+	telemetryApiPromise = api ? Promise.resolve(api) : undefined;
+	telemetryInstruments = undefined;
+}
+
+function loadTelemetryApi(): Promise<TelemetryApi | undefined> {
+	// Held in a variable so the optional package is neither type-checked nor bundled
+	const specifier = OTEL_API_MODULE;
+	telemetryApiPromise ??= import(/* @vite-ignore */ specifier).then(
+		(module) => module as TelemetryApi,
+		() => undefined,
+	);
+	return telemetryApiPromise;
+}
+
+function createTelemetryInstruments(api: TelemetryApi) {
+	const meter = api.metrics.getMeter(TELEMETRY_SCOPE);
+	return {
+		duration: meter.createHistogram("gen_ai.client.operation.duration", {
+			description: "Duration of Vertex Claude requests, retries and continuations included",
+			unit: "s",
+		}),
+		timeToFirstToken: meter.createHistogram("gen_ai.client.operation.time_to_first_chunk", {
+			description: "Time from starting a request to its first streamed content",
+			unit: "s",
+		}),
+		tokens: meter.createHistogram("gen_ai.client.token.usage", {
+			description: "Tokens used per request",
+			unit: "{token}",
+		}),
+		errors: meter.createCounter("vertex_claude.errors", {
+			description: "Failed requests by error category",
+			unit: "{request}",
+		}),
+		retries: meter.createCounter("vertex_claude.retries", {
+			description: "Attempts that failed and were retried or moved to another region",
+			unit: "{attempt}",
+		}),
+	};
+}
+
+function definedAttributes(attributes: TelemetryAttributes): TelemetryAttributes {
+	return Object.fromEntries(Object.entries(attributes).filter(([, value]) => value !== undefined));
+}
+
+function failSpan(span: TelemetrySpan, error: unknown): void {
+	const message = error instanceof Error ? error.message : String(error);
+	span.recordException(error instanceof Error ? error : message);
+	span.setStatus({ code: SPAN_STATUS_ERROR, message });
+}
+
+/** Telemetry for one request, or undefined when `@opentelemetry/api` isn't installed. */
+export async function startRequestTelemetry(model: Model<Api>): Promise<RequestTelemetry | undefined> {
+	const api = await loadTelemetryApi();
+	if (!api) return undefined;
+	if (telemetryInstruments?.api !== api) {
+		telemetryInstruments = { api, instruments: createTelemetryInstruments(api) };
+	}
+	const { instruments } = telemetryInstruments;
+
+	const tracer = api.trace.getTracer(TELEMETRY_SCOPE);
+	const startedAt = Date.now();
+	const requestAttributes = {
+		"gen_ai.operation.name": "chat",
+		"gen_ai.provider.name": TELEMETRY_PROVIDER_NAME,
+		"gen_ai.request.model": model.id,
+	};
+	const root = tracer.startSpan(`chat ${model.id}`, { attributes: requestAttributes });
+	const parent = api.trace.setSpan(api.context.active(), root);
+
+	return {
+		span(name, attributes = {}) {
+			const span = tracer.startSpan(name, { attributes: definedAttributes(attributes) }, parent);
+			return (error) => {
+				if (error !== undefined) failSpan(span, error);
+				span.end();
+			};
+		},
+		retry(category, region) {
+			instruments.retries.add(1, { ...requestAttributes, "error.type": category, "cloud.region": region });
+		},
+		end(message, outcome) {
+			const { usage } = message;
+			const inputTokens = usage.input + usage.cacheRead + usage.cacheWrite;
+			const metricAttributes = definedAttributes({
+				...requestAttributes,
+				"gen_ai.provider.name": outcome.backend === "anthropic" ? "anthropic" : TELEMETRY_PROVIDER_NAME,
+				"cloud.region": outcome.region,
+				"error.type": outcome.errorCategory,
+			});
+			root.setAttributes(
+				definedAttributes({
+					"gen_ai.provider.name": metricAttributes["gen_ai.provider.name"],
+					"cloud.region": outcome.region,
+					"gcp.project_id": outcome.project,
+					"gen_ai.response.finish_reasons": [outcome.stopReason ?? message.stopReason],
+					// Input tokens include the cached ones, as the GenAI conventions define them
+					"gen_ai.usage.input_tokens": inputTokens,
+					"gen_ai.usage.output_tokens": usage.output,
+					"gen_ai.usage.cache_read.input_tokens": usage.cacheRead,
+					"gen_ai.usage.cache_creation.input_tokens": usage.cacheWrite,
+					"vertex_claude.cost_usd": usage.cost.total,
+					"vertex_claude.request_id": outcome.requestId,
+					"error.type": outcome.errorCategory,
+				}),
+			);
+			if (outcome.errorCategory) {
+				failSpan(root, message.errorMessage ?? outcome.errorCategory);
+				instruments.errors.add(1, metricAttributes);
+			}
+			root.end();
+
+			instruments.duration.record((Date.now() - startedAt) / 1000, metricAttributes);
+			if (outcome.timeToFirstTokenMs !== undefined) {
+				instruments.timeToFirstToken.record(outcome.timeToFirstTokenMs / 1000, metricAttributes);
+			}
+			if (inputTokens + usage.output > 0) {
+				instruments.tokens.record(inputTokens, { ...metricAttributes, "gen_ai.token.type": "input" });
+				instruments.tokens.record(usage.output, { ...metricAttributes, "gen_ai.token.type": "output" });
+			}
+		},
+	};
+}
+
+// =============================================================================
+// Streaming Implementation
+// =============================================================================
+
+export function streamVertexClaude(
+	model: Model<Api>,
+	context: Context,
+	options?: VertexClaudeStreamOptions,
+): AssistantMessageEventStream {
+	const stream = createAssistantMessageEventStream();
+
+	(async () => {
+		const output: AssistantMessage = {
+			role: "assistant",
+			content: [],
+			api: model.api,
+			provider: model.provider,
+			model: model.id,
+			usage: {
+				input: 0,
+				output: 0,
+				cacheRead: 0,
+				cacheWrite: 0,
+				totalTokens: 0,
+				cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+			},
+			stopReason: "stop",
+			timestamp: Date.now(),
+		};
+		const errorContext: ErrorContext = { model: model.id };
+		// Time to the first stream event, reported so client and token reuse can be measured
+		let firstEventAt: number | undefined;
+		// Set once every request has streamed to the end; later failures are not interruptions
+		let streamed = false;
+		let requestId: string | undefined;
+		// Time to the first streamed content, for the time-to-first-token metric
+		let firstTokenAt: number | undefined;
+		let stopReason: string | undefined;
+		// Switches to "anthropic" for the rest of the response once the fallback rules kick in
+		let backend: Backend = "vertex";
+		let fallbackReason: ErrorCategory | undefined;
+		// Started inside the try, so a failing OpenTelemetry setup ends the stream with an error event
+		let telemetry: RequestTelemetry | undefined;
+		// Failed and aborted requests are billed for what was streamed, so they are recorded too
+		const recordSpend = (message: AssistantMessage) => {
+			if (process.env.VERTEX_CLAUDE_REPLAY) return;
+			const entry = ledgerEntryFor(model.id, options?.sessionId, message.usage, backend);
+			if (entry) appendLedgerEntry(entry);
+		};
+
+		const record = createRecorder(process.env.VERTEX_CLAUDE_RECORD_DIR, model.id);
+
+		try {
+			telemetry = await startRequestTelemetry(model);
+			// Get project and regions from environment
+			const projectInfo = resolveProjectId();
+			const regions = orderRegionsForModel(model.id, resolveRegions());
+			errorContext.project = projectInfo?.id;
+			// Replays need neither a project nor credentials
+			const replay = process.env.VERTEX_CLAUDE_REPLAY ? loadReplay(process.env.VERTEX_CLAUDE_REPLAY) : undefined;
+
+			if (!projectInfo && !replay) {
 				throw new Error(
-					"Vertex AI requires Application Default Credentials. Run: gcloud auth application-default login\n" +
-						"or set GOOGLE_APPLICATION_CREDENTIALS to a service account key file.",
+					"Vertex AI requires a project ID. Set GOOGLE_CLOUD_PROJECT or GCLOUD_PROJECT.\n" +
+						"Also ensure you've run: gcloud auth application-default login",
 				);
 			}
 
-			// Configure beta features for thinking and fine-grained streaming
-			const betaFeatures = ["fine-grained-tool-streaming-2025-05-14", "interleaved-thinking-2025-05-14"];
+			const endAuth = replay ? undefined : telemetry?.span("vertex.auth");
+			const credentials = replay ? undefined : await getCredentialStatus();
+			if (credentials && !credentials.ok) {
+				const error = new VertexClaudeError(
+					"auth_expired",
+					credentials.problem ?? "Vertex AI credentials are not usable",
+					credentials.remediation ?? LOGIN_REMEDIATION,
+				);
+				endAuth?.(error);
+				throw error;
+			}
+			const googleAuth = replay ? undefined : await getGoogleAuth();
+			endAuth?.();
 
-			// Create AnthropicVertex client - uses Google ADC automatically
-			const client = new AnthropicVertex({
-				projectId: projectInfo.id,
-				region: region,
-				defaultHeaders: {
-					"anthropic-beta": betaFeatures.join(","),
-				},
-			});
+			const config = getConfig();
+			if (!replay) checkBudgets(config.budgets, options?.sessionId);
+			const cacheTtl = resolveCacheTtl(options?.cacheRetention ?? config.cacheRetention);
+			const streamTimeouts = resolveStreamTimeouts(config.timeouts);
+			// Replays build no clients, so they can follow a recorded fallback without an API key
+			const fallback = resolveFallback(model.id, config.fallback, replay ? "replay" : undefined);
+
+			// Fix or replace images the API would reject before they fail the whole turn
+			const images = await prepareContextImages(model, context);
+			for (const reason of images.omitted) {
+				reportWarning(`image replaced with a text note: ${reason}`);
+			}
+			if (images.resized + images.relabeled + images.omitted.length > 0) {
+				output.diagnostics = [
+					...(output.diagnostics ?? []),
+					{
+						type: "vertex_images",
+						timestamp: Date.now(),
+						details: { resized: images.resized, relabeled: images.relabeled, omitted: images.omitted.length },
+					},
+				];
+			}
 
-			// Build request params
+			// Build request params: system prompt (with cache control), tools and messages
 			const params: MessageCreateParamsStreaming = {
 				model: model.id,
-				messages: convertMessages(context.messages, model),
-				max_tokens: options?.maxTokens || Math.floor(model.maxTokens / 3),
+				...buildPromptParams(model, images.context),
+				max_tokens:
+					options?.maxTokens || Math.min(config.maxTokens ?? Math.floor(model.maxTokens / 3), model.maxTokens),
 				stream: true,
 			};
 
-			// Add system prompt with cache control
-			if (context.systemPrompt) {
-				params.system = [
-					{
-						type: "text",
-						text: sanitizeSurrogates(context.systemPrompt),
-						cache_control: { type: "ephemeral" },
-					},
-				];
-			}
+			const cachePlan = applyCachePlan(params, cacheTtl);
 
-			// Add temperature if specified
-			if (options?.temperature !== undefined) {
-				params.temperature = options.temperature;
+			// Thinking, effort and temperature as far as this model supports them
+			const capabilities = getModelCapabilities(model.id);
+			const requestPlan = applyModelCapabilities(params, model, capabilities, options, config);
+			for (const warning of requestPlan.warnings) {
+				reportWarning(warning);
 			}
-
-			// Add tools if provided
-			if (context.tools && context.tools.length > 0) {
-				params.tools = convertTools(context.tools);
+			const { structuredTool, warnings: toolWarnings } = applyToolControls(params, resolveToolControls(options));
+			for (const warning of toolWarnings) {
+				reportWarning(warning);
 			}
+			// Text block the structured answer streams into
+			let structuredBlock: TextContent | undefined;
 
-			// Handle thinking/reasoning
-			if (options?.reasoning && model.reasoning) {
-				const defaultBudgets: Record<string, number> = {
-					minimal: 1024,
-					low: 4096,
-					medium: 10240,
-					high: 20480,
-					xhigh: 32768,
-				};
-				const budgetKey = options.reasoning === "xhigh" ? "high" : options.reasoning;
-				const customBudget = options.thinkingBudgets?.[budgetKey as keyof typeof options.thinkingBudgets];
-				const thinkingBudget = customBudget ?? defaultBudgets[options.reasoning] ?? 10240;
-
-				// Ensure max_tokens > thinking budget
-				const minOutputTokens = 1024;
-				if (params.max_tokens <= thinkingBudget) {
-					params.max_tokens = thinkingBudget + minOutputTokens;
-				}
+			const betaFeatures = [
+				...new Set([
+					...requestPlan.betas,
+					...(cacheTtl === "1h" ? [CACHE_LONG_TTL_BETA] : []),
+					...(usesLongContext(model) ? [LONG_CONTEXT_BETA] : []),
+					...(config.betas ?? []),
+				]),
+			];
+			// Only used outside replay mode, where project and credentials were checked above
+			const getClient = (region: string) => getVertexClient(projectInfo!.id, region, googleAuth!, betaFeatures);
 
-				params.thinking = {
-					type: "enabled",
-					budget_tokens: thinkingBudget,
-				};
-			}
+			// Fail fast on oversized conversations instead of after a round trip
+			if (!replay) await guardContextWindow(getClient(regions[0]), model, params, options?.signal);
+			record?.({ type: "request", timestamp: Date.now(), model: model.id, params });
 
-			// Start streaming
-			const anthropicStream = client.messages.stream({ ...params }, { signal: options?.signal });
 			stream.push({ type: "start", partial: output });
 
 			type Block = (ThinkingContent | TextContent | (ToolCall & { partialJson: string })) & { index: number };
 			const blocks = output.content as Block[];
 
-			for await (const event of anthropicStream) {
-				if (event.type === "message_start") {
-					output.usage.input = event.message.usage.input_tokens || 0;
-					output.usage.output = event.message.usage.output_tokens || 0;
-					output.usage.cacheRead = (event.message.usage as any).cache_read_input_tokens || 0;
-					output.usage.cacheWrite = (event.message.usage as any).cache_creation_input_tokens || 0;
-					output.usage.totalTokens =
-						output.usage.input + output.usage.output + output.usage.cacheRead + output.usage.cacheWrite;
-					calculateCost(model, output.usage);
-				} else if (event.type === "content_block_start") {
-					if (event.content_block.type === "text") {
-						const block: Block = { type: "text", text: "", index: event.index };
-						output.content.push(block);
-						stream.push({ type: "text_start", contentIndex: output.content.length - 1, partial: output });
-					} else if (event.content_block.type === "thinking") {
-						const block: Block = {
-							type: "thinking",
-							thinking: "",
-							thinkingSignature: "",
-							index: event.index,
-						};
-						output.content.push(block);
-						stream.push({ type: "thinking_start", contentIndex: output.content.length - 1, partial: output });
-					} else if (event.content_block.type === "tool_use") {
-						const block: Block = {
-							type: "toolCall",
-							id: event.content_block.id,
-							name: event.content_block.name,
-							arguments: event.content_block.input as Record<string, any>,
-							partialJson: "",
-							index: event.index,
-						};
-						output.content.push(block);
-						stream.push({ type: "toolcall_start", contentIndex: output.content.length - 1, partial: output });
-					}
-				} else if (event.type === "content_block_delta") {
-					const index = blocks.findIndex((b) => b.index === event.index);
-					const block = blocks[index];
-					if (!block) continue;
-
-					if (event.delta.type === "text_delta" && block.type === "text") {
-						block.text += event.delta.text;
-						stream.push({ type: "text_delta", contentIndex: index, delta: event.delta.text, partial: output });
-					} else if (event.delta.type === "thinking_delta" && block.type === "thinking") {
-						block.thinking += event.delta.thinking;
-						stream.push({
-							type: "thinking_delta",
-							contentIndex: index,
-							delta: event.delta.thinking,
-							partial: output,
-						});
-					} else if (event.delta.type === "input_json_delta" && block.type === "toolCall") {
-						(block as any).partialJson += event.delta.partial_json;
-						block.arguments = parseStreamingJson((block as any).partialJson);
-						stream.push({
-							type: "toolcall_delta",
-							contentIndex: index,
-							delta: event.delta.partial_json,
-							partial: output,
-						});
-					} else if (event.delta.type === "signature_delta" && block.type === "thinking") {
-						block.thinkingSignature = (block.thinkingSignature || "") + (event.delta as any).signature;
-					}
-				} else if (event.type === "content_block_stop") {
-					const index = blocks.findIndex((b) => b.index === event.index);
-					const block = blocks[index];
-					if (!block) continue;
-
-					delete (block as any).index;
-					if (block.type === "text") {
-						stream.push({ type: "text_end", contentIndex: index, content: block.text, partial: output });
-					} else if (block.type === "thinking") {
-						stream.push({ type: "thinking_end", contentIndex: index, content: block.thinking, partial: output });
-					} else if (block.type === "toolCall") {
-						block.arguments = parseStreamingJson((block as any).partialJson);
-						delete (block as any).partialJson;
-						stream.push({ type: "toolcall_end", contentIndex: index, toolCall: block, partial: output });
-					}
-				} else if (event.type === "message_delta") {
-					if ((event.delta as any).stop_reason) {
-						output.stopReason = mapStopReason((event.delta as any).stop_reason);
-					}
-					// Update usage from message_delta
-					if ((event.usage as any).input_tokens != null) {
-						output.usage.input = (event.usage as any).input_tokens;
-					}
-					if ((event.usage as any).output_tokens != null) {
-						output.usage.output = (event.usage as any).output_tokens;
-					}
-					if ((event.usage as any).cache_read_input_tokens != null) {
-						output.usage.cacheRead = (event.usage as any).cache_read_input_tokens;
+			// Usage of the request in flight; earlier continuation segments are folded into priorUsage
+			const emptyUsage = (): Usage => ({
+				input: 0,
+				output: 0,
+				cacheRead: 0,
+				cacheWrite: 0,
+				totalTokens: 0,
+				cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+			});
+			const priorUsage = emptyUsage();
+			let usage = emptyUsage();
+			// Cache writes split by TTL, only reported when the 1-hour TTL is in use
+			let longTtlWriteTokens = 0;
+			const updateCost = () => {
+				const priced = pricedModel(model, usage, backend);
+				calculateCost(priced, usage);
+				adjustCacheWriteCost(priced, usage, longTtlWriteTokens);
+				output.usage = addUsage(priorUsage, usage);
+			};
+
+			const maxRetries = options?.maxRetries ?? RETRY_DEFAULT_MAX_RETRIES;
+			const maxServerDelayMs = options?.maxRetryDelayMs ?? RETRY_DEFAULT_MAX_SERVER_DELAY_MS;
+			const maxContinuations = config.maxContinuations ?? 0;
+			let continuations = 0;
+			// Every request sent, including region failovers; keys the recording
+			let requestNumber = 0;
+			let requestParams = params;
+			// Block a continuation streams into, and the whitespace it ends in that the prefill left out
+			let resumed: Block | undefined;
+			let repeatedWhitespace = "";
+
+			// One pass per request: the original one, then each continuation
+			while (true) {
+				let totalWaitMs = 0;
+				let attempt = 1;
+				let regionIndex = 0;
+				// Set once this request streams content; from then on a failure can't be retried
+				let segmentEmitted = false;
+
+				while (true) {
+					const region = backend === "anthropic" ? ANTHROPIC_API_REGION : regions[regionIndex];
+					errorContext.region = backend === "anthropic" ? undefined : region;
+					const requestIndex = requestNumber++;
+					// Aborted by the user's signal or by the stall watchdog, whichever comes first
+					const attemptController = new AbortController();
+					const abortAttempt = () => attemptController.abort();
+					options?.signal?.addEventListener("abort", abortAttempt, { once: true });
+					// An abort during auth, the context check or a retry wait has already fired
+					if (options?.signal?.aborted) abortAttempt();
+					// Connect, then wait for the first token, then stream; one span at a time per attempt
+					let phase: string | undefined;
+					let endPhase: ((error?: unknown) => void) | undefined;
+					const enterPhase = (name: string) => {
+						endPhase?.();
+						phase = name;
+						endPhase = telemetry?.span(name, { "cloud.region": region, "vertex_claude.attempt": requestIndex });
+					};
+					try {
+						// Start streaming
+						enterPhase("vertex.connect");
+						const anthropicStream = replay
+							? replay.nextAttempt()
+							: backend === "anthropic"
+								? getAnthropicClient(fallback!.apiKey, betaFeatures).messages.stream(
+										{ ...requestParams, model: fallback!.model },
+										{ signal: attemptController.signal },
+									)
+								: getClient(region).messages.stream({ ...requestParams }, { signal: attemptController.signal });
+						if ("on" in anthropicStream) {
+							anthropicStream.on("connect", () => {
+								if (phase === "vertex.connect") enterPhase("vertex.first_token");
+							});
+						}
+
+						for await (const event of watchStream(anthropicStream, streamTimeouts, abortAttempt)) {
+							firstEventAt ??= Date.now();
+							if (phase === "vertex.connect") enterPhase("vertex.first_token");
+							if (phase === "vertex.first_token" && event.type === "content_block_delta") {
+								firstTokenAt ??= Date.now();
+								enterPhase("vertex.stream");
+							}
+							record?.({ type: "event", attempt: requestIndex, region, event });
+							if (event.type === "message_start") {
+								usage.input = event.message.usage.input_tokens || 0;
+								usage.output = event.message.usage.output_tokens || 0;
+								usage.cacheRead = (event.message.usage as any).cache_read_input_tokens || 0;
+								usage.cacheWrite = (event.message.usage as any).cache_creation_input_tokens || 0;
+								longTtlWriteTokens = (event.message.usage as any).cache_creation?.ephemeral_1h_input_tokens || 0;
+								usage.totalTokens =
+									usage.input + usage.output + usage.cacheRead + usage.cacheWrite;
+								updateCost();
+							} else if (event.type === "content_block_start") {
+								segmentEmitted = true;
+								if (event.content_block.type === "text" && resumed?.type === "text") {
+									// Continued text goes on in the block the prefill ended with
+									resumed.index = event.index;
+									stream.push({ type: "text_start", contentIndex: blocks.indexOf(resumed), partial: output });
+									resumed = undefined;
+								} else if (
+									event.content_block.type === "tool_use" &&
+									resumed?.type === "toolCall" &&
+									event.content_block.name === resumed.name
+								) {
+									// The call made again replaces the cut-off arguments and keeps the ID already streamed
+									resumed.index = event.index;
+									resumed.partialJson = "";
+									resumed.arguments = {};
+									stream.push({ type: "toolcall_start", contentIndex: blocks.indexOf(resumed), partial: output });
+									resumed = undefined;
+								} else if (event.content_block.type === "text") {
+									const block: Block = { type: "text", text: "", index: event.index };
+									output.content.push(block);
+									stream.push({ type: "text_start", contentIndex: output.content.length - 1, partial: output });
+								} else if (event.content_block.type === "thinking") {
+									const block: Block = {
+										type: "thinking",
+										thinking: "",
+										thinkingSignature: "",
+										index: event.index,
+									};
+									output.content.push(block);
+									stream.push({ type: "thinking_start", contentIndex: output.content.length - 1, partial: output });
+								} else if (event.content_block.type === "redacted_thinking") {
+									const block: Block = {
+										type: "thinking",
+										thinking: "[Reasoning redacted]",
+										thinkingSignature: event.content_block.data,
+										redacted: true,
+										index: event.index,
+									};
+									output.content.push(block);
+									stream.push({ type: "thinking_start", contentIndex: output.content.length - 1, partial: output });
+								} else if (
+									event.content_block.type === "tool_use" &&
+									event.content_block.name === structuredTool?.name
+								) {
+									// The forced tool's arguments are the answer, streamed as JSON text
+									const block: Block = { type: "text", text: "", index: event.index };
+									structuredBlock = block;
+									output.content.push(block);
+									stream.push({ type: "text_start", contentIndex: output.content.length - 1, partial: output });
+								} else if (event.content_block.type === "tool_use") {
+									const block: Block = {
+										type: "toolCall",
+										id: event.content_block.id,
+										name: event.content_block.name,
+										arguments: event.content_block.input as Record<string, any>,
+										partialJson: "",
+										index: event.index,
+									};
+									output.content.push(block);
+									stream.push({ type: "toolcall_start", contentIndex: output.content.length - 1, partial: output });
+								}
+							} else if (event.type === "content_block_delta") {
+								const index = blocks.findIndex((b) => b.index === event.index);
+								const block = blocks[index];
+								if (!block) continue;
+
+								if (event.delta.type === "text_delta" && block.type === "text") {
+									let delta = event.delta.text;
+									if (repeatedWhitespace) {
+										// The model writes the whitespace trimmed from the prefill again; the block already has it
+										let skip = 0;
+										while (skip < delta.length && delta[skip] === repeatedWhitespace[skip]) skip++;
+										repeatedWhitespace = skip === delta.length ? repeatedWhitespace.slice(skip) : "";
+										delta = delta.slice(skip);
+										if (!delta) continue;
+									}
+									block.text += delta;
+									stream.push({ type: "text_delta", contentIndex: index, delta, partial: output });
+								} else if (event.delta.type === "thinking_delta" && block.type === "thinking") {
+									block.thinking += event.delta.thinking;
+									stream.push({
+										type: "thinking_delta",
+										contentIndex: index,
+										delta: event.delta.thinking,
+										partial: output,
+									});
+								} else if (event.delta.type === "input_json_delta" && block === structuredBlock) {
+									block.text += event.delta.partial_json;
+									stream.push({
+										type: "text_delta",
+										contentIndex: index,
+										delta: event.delta.partial_json,
+										partial: output,
+									});
+								} else if (event.delta.type === "input_json_delta" && block.type === "toolCall") {
+									(block as any).partialJson += event.delta.partial_json;
+									block.arguments = parseStreamingJson((block as any).partialJson);
+									stream.push({
+										type: "toolcall_delta",
+										contentIndex: index,
+										delta: event.delta.partial_json,
+										partial: output,
+									});
+								} else if (event.delta.type === "signature_delta" && block.type === "thinking") {
+									block.thinkingSignature = (block.thinkingSignature || "") + (event.delta as any).signature;
+								}
+							} else if (event.type === "content_block_stop") {
+								const index = blocks.findIndex((b) => b.index === event.index);
+								const block = blocks[index];
+								if (!block) continue;
+
+								delete (block as any).index;
+								if (block.type === "text") {
+									stream.push({ type: "text_end", contentIndex: index, content: block.text, partial: output });
+								} else if (block.type === "thinking") {
+									recordThinkingBlock(block);
+									stream.push({ type: "thinking_end", contentIndex: index, content: block.thinking, partial: output });
+								} else if (block.type === "toolCall") {
+									block.arguments = parseStreamingJson((block as any).partialJson);
+									delete (block as any).partialJson;
+									stream.push({ type: "toolcall_end", contentIndex: index, toolCall: block, partial: output });
+								}
+							} else if ((event as { type: string }).type === "error") {
+								// The SDK normally throws these itself; a transport that passes them through is handled the same way
+								throw new StreamErrorEvent(event as unknown as StreamErrorEvent["error"]);
+							} else if (event.type === "message_delta") {
+								if ((event.delta as any).stop_reason) {
+									stopReason = (event.delta as any).stop_reason;
+									output.stopReason = mapStopReason((event.delta as any).stop_reason);
+								}
+								// Update usage from message_delta
+								if ((event.usage as any).input_tokens != null) {
+									usage.input = (event.usage as any).input_tokens;
+								}
+								if ((event.usage as any).output_tokens != null) {
+									usage.output = (event.usage as any).output_tokens;
+								}
+								if ((event.usage as any).cache_read_input_tokens != null) {
+									usage.cacheRead = (event.usage as any).cache_read_input_tokens;
+								}
+								if ((event.usage as any).cache_creation_input_tokens != null) {
+									usage.cacheWrite = (event.usage as any).cache_creation_input_tokens;
+								}
+								if ((event.usage as any).cache_creation?.ephemeral_1h_input_tokens != null) {
+									longTtlWriteTokens = (event.usage as any).cache_creation.ephemeral_1h_input_tokens;
+								}
+								usage.totalTokens =
+									usage.input + usage.output + usage.cacheRead + usage.cacheWrite;
+								updateCost();
+							}
+						}
+						requestId = anthropicStream.request_id ?? undefined;
+						endPhase?.();
+						if (backend === "vertex") markRegionHealthy(model.id, region);
+						break;
+					} catch (error) {
+						endPhase?.(error);
+						record?.({ type: "error", attempt: requestIndex, region, error: recordedError(error) });
+						// Only retry while nothing has reached the consumer; partial output can't be taken back
+						if (options?.signal?.aborted || segmentEmitted) throw error;
+
+						// Move on to the next region right away before backing off in the current one
+						if (backend === "vertex" && regionIndex < regions.length - 1 && isRegionFailoverError(error)) {
+							telemetry?.retry(classifyError(error, errorContext).category, region);
+							regionIndex++;
+							reportStatus(`Vertex AI unavailable in ${region}, switching to ${regions[regionIndex]}`);
+							continue;
+						}
+
+						// Every region failed; hand the same request to the Anthropic API if the rules allow it
+						const category = classifyError(error, errorContext).category;
+						const vertexGivesUp = !isRetryableError(error) || attempt > maxRetries;
+						if (backend === "vertex" && fallback && shouldFallBack(fallback, category, attempt - 1, vertexGivesUp)) {
+							telemetry?.retry(category, region);
+							backend = "anthropic";
+							fallbackReason = category;
+							errorContext.backend = "anthropic";
+							reportStatus(`Vertex AI unavailable (${category}), sending the request to the Anthropic API`);
+							attempt = 1;
+							totalWaitMs = 0;
+							continue;
+						}
+
+						if (!isRetryableError(error) || attempt > maxRetries) throw error;
+
+						const retryAfterMs = getRetryAfterMs(error);
+						if (retryAfterMs !== undefined && maxServerDelayMs > 0 && retryAfterMs > maxServerDelayMs) {
+							throw error;
+						}
+						const delayMs = computeRetryDelay(attempt, retryAfterMs);
+						if (totalWaitMs + delayMs > RETRY_MAX_TOTAL_WAIT_MS) throw error;
+						totalWaitMs += delayMs;
+						telemetry?.retry(category, region);
+
+						const service = backend === "anthropic" ? "The Anthropic API" : "Vertex AI";
+						const reason = error instanceof StreamTimeoutError ? error.message : `${service} is busy`;
+						reportStatus(
+							`${reason}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1}/${maxRetries + 1})`,
+						);
+						try {
+							// Replays reproduce the retry sequence without the wait
+							if (!replay) await sleep(delayMs, options?.signal);
+						} finally {
+							reportStatus(undefined);
+						}
+						attempt++;
+						regionIndex = 0;
+					} finally {
+						options?.signal?.removeEventListener("abort", abortAttempt);
 					}
-					if ((event.usage as any).cache_creation_input_tokens != null) {
-						output.usage.cacheWrite = (event.usage as any).cache_creation_input_tokens;
+				}
+
+				// Structured answers are parsed whole and fail when cut off instead
+				const plan =
+					stopReason === "max_tokens" &&
+					continuations < maxContinuations &&
+					!structuredTool &&
+					!options?.signal?.aborted
+						? planContinuation(requestParams, output.content, capabilities.prefill)
+						: undefined;
+				if (!plan) break;
+				// What was written grows the prompt; a continuation that no longer fits ends the response as cut off
+				if (!replay) {
+					try {
+						await guardContextWindow(getClient(regions[0]), model, plan.params, options?.signal);
+					} catch (error) {
+						if (error instanceof ContextOverflowError) break;
+						throw error;
 					}
-					output.usage.totalTokens =
-						output.usage.input + output.usage.output + output.usage.cacheRead + output.usage.cacheWrite;
-					calculateCost(model, output.usage);
 				}
+
+				continuations++;
+				Object.assign(priorUsage, output.usage);
+				usage = emptyUsage();
+				longTtlWriteTokens = 0;
+				resumed = plan.resume as Block;
+				repeatedWhitespace = resumed.type === "text" ? resumed.text.slice(resumed.text.trimEnd().length) : "";
+				requestParams = plan.params;
+				record?.({ type: "request", timestamp: Date.now(), model: model.id, params: requestParams });
 			}
+			streamed = true;
 
 			if (options?.signal?.aborted) {
 				throw new Error("Request was aborted");
 			}
 
+			if (stopReason === "refusal") {
+				throw new VertexClaudeError(
+					"refusal",
+					`${model.name} declined to continue this request (stop reason: refusal)`,
+					"Rephrase the request or remove the content that triggered the refusal.",
+					requestId,
+				);
+			}
 			if (output.stopReason === "aborted" || output.stopReason === "error") {
-				throw new Error("An unknown error occurred");
+				throw new VertexClaudeError("unknown", `Request ended with stop reason "${stopReason}"`, undefined, requestId);
+			}
+			if (structuredTool) {
+				if (!structuredBlock || output.stopReason === "length") {
+					throw new VertexClaudeError(
+						"invalid_request",
+						`${model.name} did not finish the structured output (stop reason: ${stopReason})`,
+						"Raise maxTokens or simplify the schema.",
+						requestId,
+					);
+				}
+				structuredBlock.text = parseStructuredOutput(structuredTool, structuredBlock.text);
+				// The answer is the result; there is no tool for pi to run
+				output.stopReason = "stop";
+			}
+
+			output.diagnostics = [
+				...(output.diagnostics ?? []),
+				{
+					type: "vertex_cache",
+					timestamp: Date.now(),
+					details: {
+						ttl: cachePlan.ttl ?? "none",
+						breakpoints: cachePlan.breakpoints,
+						cacheRead: output.usage.cacheRead,
+						cacheWrite: output.usage.cacheWrite,
+						uncachedInput: output.usage.input,
+						hitRate: cacheHitRate(output.usage),
+					},
+				},
+				{
+					type: "vertex_latency",
+					timestamp: Date.now(),
+					details: {
+						timeToFirstEventMs: firstEventAt !== undefined ? firstEventAt - output.timestamp : undefined,
+						totalMs: Date.now() - output.timestamp,
+					},
+				},
+				{
+					type: "vertex_backend",
+					timestamp: Date.now(),
+					details: {
+						backend,
+						model: backend === "anthropic" ? fallback!.model : model.id,
+						region: errorContext.region ?? null,
+						fallbackReason: fallbackReason ?? null,
+					},
+				},
+			];
+			if (continuations > 0) {
+				output.diagnostics.push({
+					type: "vertex_continuation",
+					timestamp: Date.now(),
+					details: { continuations, completed: stopReason !== "max_tokens" },
+				});
 			}
 
+			record?.({ type: "end", stopReason: output.stopReason });
+			recordSpend(output);
+			telemetry?.end(output, {
+				backend,
+				region: errorContext.region,
+				project: errorContext.project,
+				stopReason,
+				timeToFirstTokenMs: firstTokenAt !== undefined ? firstTokenAt - output.timestamp : undefined,
+				requestId,
+			});
 			stream.push({ type: "done", reason: output.stopReason as "stop" | "length" | "toolUse", message: output });
 			stream.end();
 		} catch (error) {
-			// Clean up any index properties
-			for (const block of output.content) delete (block as any).index;
+			const interruption = closeInterruptedBlocks(output.content, output.usage.output);
 			output.stopReason = options?.signal?.aborted ? "aborted" : "error";
-			output.errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
+			let errorCategory: ErrorCategory | undefined;
+			if (output.stopReason === "aborted") {
+				output.errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
+			} else {
+				const classified = classifyError(error, errorContext);
+				errorCategory = classified.category;
+				requestId ??= classified.requestId;
+				output.errorMessage = formatClassifiedError(classified);
+				if (output.content.length > 0 && !streamed) {
+					output.errorMessage = `${describeInterruption(interruption)}.\n${output.errorMessage}`;
+					output.diagnostics = [
+						...(output.diagnostics ?? []),
+						{ type: "vertex_interrupted", timestamp: Date.now(), details: { ...interruption } },
+					];
+				}
+				output.diagnostics = [
+					...(output.diagnostics ?? []),
+					{
+						type: "vertex_error",
+						timestamp: Date.now(),
+						details: {
+							category: classified.category,
+							status: classified.status ?? null,
+							requestId: classified.requestId ?? null,
+							region: errorContext.region ?? null,
+							backend,
+							fallbackReason: fallbackReason ?? null,
+						},
+					},
+				];
+			}
+			record?.({ type: "end", stopReason: output.stopReason, errorMessage: output.errorMessage });
+			recordSpend(output);
+			telemetry?.end(output, {
+				backend,
+				region: errorContext.region,
+				project: errorContext.project,
+				stopReason,
+				timeToFirstTokenMs: firstTokenAt !== undefined ? firstTokenAt - output.timestamp : undefined,
+				requestId,
+				errorCategory,
+			});
 			stream.push({ type: "error", reason: output.stopReason, error: output });
 			stream.end();
 		}
@@ -597,26 +4683,299 @@ export function streamVertexClaude(
 	return stream;
 }
 
+// =============================================================================
+// Slash Commands
+// `/vertex status`, `/vertex doctor [model]` and `/vertex region <name>`.
+// =============================================================================
+
+const VERTEX_SUBCOMMANDS = ["status", "doctor", "region"];
+const VERTEX_USAGE = "Usage: /vertex status | doctor [model] | region <name>";
+const VERTEX_PREDICT_PERMISSION = "aiplatform.endpoints.predict";
+const DOCTOR_TIMEOUT_MS = 30_000;
+
+export interface DoctorStep {
+	name: string;
+	ok: boolean;
+	detail: string;
+	remediation?: string;
+}
+
+export interface DoctorOptions {
+	/** Model used for the enablement check */
+	modelId: string;
+	/** Injectable HTTP call for the IAM check, defaults to global fetch */
+	fetch?: FetchLike;
+	/** Injectable token source, defaults to Google ADC */
+	getAccessToken?: () => Promise<string | null | undefined>;
+	/** Injectable credential check, defaults to getCredentialStatus */
+	getCredentials?: () => Promise<CredentialStatus>;
+	/** Injectable Vertex client, defaults to one for the first region */
+	client?: Pick<AnthropicVertex, "messages">;
+}
+
+function describeCredentials(status: CredentialStatus): string {
+	const parts = [`${status.type ?? "unknown"} credentials from ${status.source ?? "unknown source"}`];
+	if (status.account) parts.push(`account ${status.account}`);
+	if (status.impersonating) parts.push(`impersonating ${status.impersonating}`);
+	if (status.expiresAt !== undefined) {
+		parts.push(`token expires in ${Math.max(0, Math.round((status.expiresAt - Date.now()) / 60_000))} min`);
+	}
+	return parts.join(", ");
+}
+
+/**
+ * Checks configuration, project, credentials, IAM permission and model access in order.
+ * Stops after a failed project or credential check, since nothing after it can run.
+ */
+export async function runDoctor(options: DoctorOptions): Promise<DoctorStep[]> {
+	const steps: DoctorStep[] = [];
+
+	const loaded = loadConfig();
+	const configErrors = [...loaded.errors, ...mergeModels(VERTEX_CLAUDE_MODELS, loaded.config.models).errors];
+	steps.push(
+		configErrors.length > 0
+			? {
+					name: "Configuration",
+					ok: false,
+					detail: `${configErrors.length} invalid entries are ignored:\n  ${configErrors.join("\n  ")}`,
+					remediation: "Fix or remove them in ~/.pi/agent/vertex-claude.json or .pi/vertex-claude.json.",
+				}
+			: { name: "Configuration", ok: true, detail: "No invalid entries" },
+	);
+
+	const project = resolveProjectId();
+	if (!project) {
+		steps.push({
+			name: "Project",
+			ok: false,
+			detail: "No Google Cloud project is set, so the provider is not registered",
+			remediation: 'export GOOGLE_CLOUD_PROJECT=your-project-id, or set "project" in the config file.',
+		});
+		return steps;
+	}
+	steps.push({ name: "Project", ok: true, detail: `${project.id} (from ${describeProjectSource(project)})` });
+
+	const credentials = await (options.getCredentials ?? getCredentialStatus)();
+	if (!credentials.ok) {
+		steps.push({
+			name: "Credentials",
+			ok: false,
+			detail: credentials.problem ?? "Vertex AI credentials are not usable",
+			remediation: credentials.remediation ?? LOGIN_REMEDIATION,
+		});
+		return steps;
+	}
+	steps.push({ name: "Credentials", ok: true, detail: describeCredentials(credentials) });
+
+	try {
+		const fetchImpl = options.fetch ?? (fetch as unknown as FetchLike);
+		const token = await (options.getAccessToken ?? getAdcAccessToken)();
+		const url = `https://cloudresourcemanager.googleapis.com/v1/projects/${project.id}:testIamPermissions`;
+		const response = await fetchImpl(url, {
+			method: "POST",
+			headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+			body: JSON.stringify({ permissions: [VERTEX_PREDICT_PERMISSION] }),
+			signal: AbortSignal.timeout(DOCTOR_TIMEOUT_MS),
+		});
+		if (!response.ok) throw new Error(`HTTP ${response.status}`);
+		const granted: string[] = (await response.json())?.permissions ?? [];
+		steps.push(
+			granted.includes(VERTEX_PREDICT_PERMISSION)
+				? { name: "Permissions", ok: true, detail: `${VERTEX_PREDICT_PERMISSION} granted on ${project.id}` }
+				: {
+						name: "Permissions",
+						ok: false,
+						detail: `Missing ${VERTEX_PREDICT_PERMISSION} on ${project.id}`,
+						remediation:
+							`gcloud projects add-iam-policy-binding ${project.id} ` +
+							`--member=user:YOUR_EMAIL --role=roles/aiplatform.user`,
+					},
+		);
+	} catch (error) {
+		// Resource Manager may be disabled for the project; the model check below still tells the story
+		steps.push({
+			name: "Permissions",
+			ok: false,
+			detail: `Could not check IAM permissions: ${error instanceof Error ? error.message : String(error)}`,
+		});
+	}
+
+	const region = resolveRegions()[0];
+	try {
+		const client = options.client ?? getVertexClient(project.id, region, await getGoogleAuth());
+		await client.messages.create(
+			{ model: options.modelId, max_tokens: 1, messages: [{ role: "user", content: "ping" }] },
+			{ signal: AbortSignal.timeout(DOCTOR_TIMEOUT_MS) },
+		);
+		steps.push({ name: "Model access", ok: true, detail: `${options.modelId} responds in ${region}` });
+	} catch (error) {
+		const classified = classifyError(error, { model: options.modelId, project: project.id, region });
+		steps.push({
+			name: "Model access",
+			ok: false,
+			detail: `${options.modelId} in ${region}: ${classified.message}`,
+			remediation: classified.remediation,
+		});
+	}
+
+	return steps;
+}
+
+export function formatDoctorReport(steps: DoctorStep[]): string {
+	return steps
+		.map((step) => {
+			const line = `${step.ok ? "[ok]" : "[fail]"} ${step.name}: ${step.detail}`;
+			return step.remediation ? `${line}\n       ${step.remediation.replace(/\n/g, "\n       ")}` : line;
+		})
+		.join("\n");
+}
+
+/** What `/vertex status` shows; `unregistered` explains why the provider isn't available. */
+export async function describeVertexStatus(unregistered?: string): Promise<string> {
+	const project = resolveProjectId();
+	const regions = resolveRegions();
+	const lines = [
+		`Project: ${project ? `${project.id} (from ${describeProjectSource(project)})` : "not set"}`,
+		`Region: ${regions[0]}${regionOverride ? " (set by /vertex region)" : describeRegionSource()}`,
+	];
+	if (regions.length > 1) lines.push(`Failover regions: ${regions.slice(1).join(", ")}`);
+	const fallback = getConfig().fallback;
+	if (fallback?.enabled) {
+		const rules = (fallback.on ?? FALLBACK_DEFAULT_CATEGORIES).join(", ");
+		const key = process.env.ANTHROPIC_API_KEY ? "" : " (inactive: ANTHROPIC_API_KEY is not set)";
+		lines.push(`Fallback: Anthropic API on ${rules}${key}`);
+	}
+
+	if (unregistered) {
+		lines.push(`Provider not registered: ${unregistered}`, "Run /vertex doctor for details.");
+		return lines.join("\n");
+	}
+
+	const credentials = await getCredentialStatus();
+	const credentialText = credentials.ok ? describeCredentials(credentials) : formatCredentialProblem(credentials);
+	lines.push(`Credentials: ${credentialText}`);
+	lines.push(`Models (${registeredModels.size}): ${[...registeredModels.keys()].join(", ")}`);
+	return lines.join("\n");
+}
+
 // =============================================================================
 // Extension Entry Point
 // =============================================================================
 
+// Registered as the provider's API key; never an environment variable name or a real secret
+const VERTEX_API_KEY_MARKER = "vertex-claude-adc";
+
 export default function (pi: ExtensionAPI) {
+	activeConfig = loadConfig();
+	const config = activeConfig.config;
+	const discoveryEnabled = config.discovery?.enabled === true;
+	const discoveryCache = discoveryEnabled ? readDiscoveryCache() : undefined;
+
+	// Config entries apply last so they can also correct metadata guessed for discovered models
+	const buildModels = (discoveredIds?: string[]) =>
+		mergeModels(mergeDiscoveredModels(VERTEX_CLAUDE_MODELS, discoveredIds), config.models);
+
+	const { models, errors: modelErrors } = buildModels(discoveryCache?.ids);
+	const configErrors = [...activeConfig.errors, ...modelErrors];
+
+	if (configErrors.length > 0) {
+		const summary = `vertex-claude: ignoring invalid config entries:\n  ${configErrors.join("\n  ")}`;
+		pi.on("session_start", (_event, ctx) => {
+			if (ctx.hasUI) ctx.ui.notify(summary, "error");
+			else console.error(summary);
+		});
+	}
+
 	const projectInfo = resolveProjectId();
-	if (!projectInfo || !hasAdcCredentials()) {
+	// Set once the provider is registered, so `/vertex region` can update its display URL
+	let reregister: (() => void) | undefined;
+
+	// Registered even without a project, so `/vertex doctor` can explain why the provider is missing
+	pi.registerCommand("vertex", {
+		description: "Vertex AI provider: status, doctor [model], region <name>",
+		getArgumentCompletions: (prefix) => {
+			const items = VERTEX_SUBCOMMANDS.filter((name) => name.startsWith(prefix.trim()));
+			return items.length > 0 ? items.map((name) => ({ value: name, label: name })) : null;
+		},
+		handler: async (args, ctx) => {
+			const show = (text: string, type: "info" | "warning" | "error" = "info") => {
+				if (ctx.hasUI) ctx.ui.notify(text, type);
+				else if (type === "info") console.log(text);
+				else console.error(text);
+			};
+			const [subcommand = "status", name] = args.trim().split(/\s+/).filter(Boolean);
+
+			switch (subcommand) {
+				case "status":
+					show(await describeVertexStatus(projectInfo ? undefined : "no Google Cloud project is set"));
+					return;
+				case "doctor": {
+					const current = ctx.model?.provider === "google-vertex-claude" ? ctx.model.id : undefined;
+					const modelId = name ?? current ?? registeredModels.keys().next().value ?? VERTEX_CLAUDE_MODELS[0].id;
+					const steps = await runDoctor({ modelId });
+					show(formatDoctorReport(steps), steps.every((step) => step.ok) ? "info" : "warning");
+					return;
+				}
+				case "region":
+					if (!name || !isValidRegion(name)) {
+						show("Usage: /vertex region <name>, e.g. us-east5, europe-west1 or global", "error");
+						return;
+					}
+					setRegionOverride(name);
+					reregister?.();
+					show(`vertex-claude: using ${name} for the rest of this session`);
+					return;
+				default:
+					show(`Unknown subcommand "${subcommand}". ${VERTEX_USAGE}`, "error");
+			}
+		},
+	});
+
+	if (!projectInfo) {
 		return;
 	}
 
-	// Get region from environment for baseUrl (used for display, SDK handles actual endpoint)
-	const region = process.env.GOOGLE_CLOUD_LOCATION || process.env.CLOUD_ML_REGION || "us-east5";
+	// Credentials may come from the metadata server, so register first and report problems once checked
+	pi.on("session_start", async (_event, ctx) => {
+		const credentials = await getCredentialStatus();
+		if (credentials.ok) return;
+		const message = `vertex-claude: ${formatCredentialProblem(credentials)}`;
+		if (ctx.hasUI) ctx.ui.notify(message, "warning");
+		else console.error(message);
+	});
+
+	// Primary region for model discovery
+	const region = resolveRegions()[0];
 
-	pi.registerProvider("google-vertex-claude", {
-		baseUrl: `https://${region}-aiplatform.googleapis.com`, // Display URL, SDK handles actual endpoint
-		apiKey: projectInfo.envVar, // Env var for detection
-		api: "vertex-claude-api", // Custom API identifier
+	const registerModels = (providerModels: VertexClaudeModel[]) => {
+		registeredModels.clear();
+		for (const model of providerModels) registeredModels.set(model.id, model);
+		pi.registerProvider("google-vertex-claude", {
+			baseUrl: regionBaseUrl(resolveRegions()[0]), // Display URL, SDK handles actual endpoint
+			apiKey: VERTEX_API_KEY_MARKER, // Vertex authenticates with ADC; pi only needs a key to be present
+			api: "vertex-claude-api", // Custom API identifier
 
-		models: VERTEX_CLAUDE_MODELS,
+			models: providerModels,
+
+			streamSimple: streamVertexClaude,
+		});
+	};
+
+	registerModels(models);
+	reregister = () => registerModels([...registeredModels.values()]);
+
+	// Refresh a missing or stale catalog in the background; the static list stays registered if this fails
+	const ttlHours = config.discovery?.ttlHours ?? DISCOVERY_DEFAULT_TTL_HOURS;
+	if (discoveryEnabled && !(discoveryCache && isDiscoveryCacheFresh(discoveryCache, ttlHours))) {
+		void refreshDiscoveredModels({ project: projectInfo.id, region }).then((ids) => {
+			if (ids) registerModels(buildModels(ids).models);
+		});
+	}
 
-		streamSimple: streamVertexClaude,
+	// Surface retry progress and warnings in the UI instead of stderr once it is available
+	pi.on("session_start", (_event, ctx) => {
+		if (!ctx.hasUI) return;
+		setStatusReporter((message) => ctx.ui.setStatus("vertex-claude", message));
+		setWarningReporter((message) => ctx.ui.notify(`vertex-claude: ${message}`, "warning"));
 	});
 }